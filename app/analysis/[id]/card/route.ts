@@ -0,0 +1,23 @@
+import type { NextRequest } from "next/server";
+import { exportFileName } from "@/lib/report";
+import { getAnalysis } from "@/lib/server/analysisStore";
+import { renderMatchCard } from "@/lib/server/matchCard";
+
+export const runtime = "nodejs";
+
+/** PNG match card for a shared analysis; `?download=1` serves it as an attachment. */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const analysis = await getAnalysis(id);
+  if (!analysis) {
+    return Response.json({ error: { code: "not_found", message: "Analysis not found." } }, { status: 404 });
+  }
+
+  const image = await renderMatchCard(analysis);
+  const headers = new Headers(image.headers);
+  headers.set("Cache-Control", "public, max-age=86400, immutable");
+  if (request.nextUrl.searchParams.get("download") === "1") {
+    headers.set("Content-Disposition", `attachment; filename="${exportFileName(analysis.query, analysis.response)}.png"`);
+  }
+  return new Response(image.body, { status: image.status, headers });
+}
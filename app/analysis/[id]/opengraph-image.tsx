@@ -0,0 +1,14 @@
+import { getAnalysis } from "@/lib/server/analysisStore";
+import { MATCH_CARD_SIZE, renderMatchCard } from "@/lib/server/matchCard";
+
+export const runtime = "nodejs";
+export const size = MATCH_CARD_SIZE;
+export const contentType = "image/png";
+export const alt = "Match card";
+
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const analysis = await getAnalysis(id);
+  // Unknown ids still get a card, just without match data, so crawlers never see a broken image.
+  return renderMatchCard(analysis ?? { query: "Soccer mind", response: {} });
+}
@@ -0,0 +1,83 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { AnalysisView } from "@/components/AnalysisView";
+import { ExportMenu } from "@/components/ExportMenu";
+import { getAnalysis } from "@/lib/server/analysisStore";
+import { analysisTitle, plainSummary } from "@/lib/share";
+
+type Props = { params: Promise<{ id: string }> };
+
+const loadAnalysis = cache(getAnalysis);
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const analysis = await loadAnalysis(id);
+  if (!analysis) return { title: "Analysis not found | Soccer mind" };
+
+  const title = analysisTitle(analysis.response, analysis.query);
+  const description = plainSummary(analysis.response) || analysis.query;
+  return {
+    title: `${title} | Soccer mind`,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "article",
+      url: `/analysis/${id}`,
+      siteName: "Soccer mind",
+      publishedTime: analysis.createdAt,
+    },
+    twitter: { card: "summary_large_image", title, description },
+  };
+}
+
+export default async function AnalysisPage({ params }: Props) {
+  const { id } = await params;
+  const analysis = await loadAnalysis(id);
+  if (!analysis) notFound();
+
+  return (
+    <div className="relative min-h-screen bg-[#050505] font-sans text-white selection:bg-indigo-500/30">
+      <header className="flex items-center justify-between px-6 py-6 md:px-12">
+        <Link href="/" className="flex items-center gap-2">
+          <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-gradient-to-tr from-indigo-500 to-purple-500">
+            <span className="text-sm">⚽</span>
+          </div>
+          <span className="font-semibold tracking-tight text-white">SoccerAI</span>
+        </Link>
+        <Link
+          href="/"
+          className="rounded-full bg-white/10 px-5 py-2 text-sm font-medium text-white transition-colors hover:bg-white/20"
+        >
+          Ask your own question
+        </Link>
+      </header>
+
+      <main className="mx-auto w-full max-w-6xl space-y-6 px-4 pb-20 pt-6">
+        <div className="flex justify-end">
+          <div className="max-w-xl rounded-2xl border border-white/10 bg-[#1a1b26]/90 px-4 py-3 shadow-xl">
+            <p className="text-xs font-medium text-white">Question</p>
+            <p className="text-sm text-white/70">{analysis.query}</p>
+            <p className="mt-1 text-[10px] text-white/30">
+              Shared {new Date(analysis.createdAt).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" })}
+            </p>
+          </div>
+        </div>
+        <AnalysisView
+          data={analysis.response}
+          retrievedAt={analysis.createdAt}
+          footer={
+            <div className="mt-6 border-t border-white/10 pt-4">
+              <ExportMenu query={analysis.query} response={analysis.response} analysisId={analysis.id} />
+            </div>
+          }
+        />
+        <p className="text-center text-[10px] text-white/30">
+          AI may make mistakes. Please verify important information.
+        </p>
+      </main>
+    </div>
+  );
+}
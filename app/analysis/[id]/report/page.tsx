@@ -0,0 +1,141 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import ReactMarkdown from "react-markdown";
+import { PrintButton } from "@/components/PrintButton";
+import { toTimelineMoments } from "@/lib/match";
+import { getAnalysis } from "@/lib/server/analysisStore";
+import { analysisTitle, matchHeadline } from "@/lib/share";
+import { collectSources } from "@/lib/sources";
+import { findTeam } from "@/lib/teams";
+import { cleanText } from "@/lib/text";
+
+type Props = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ print?: string }>;
+};
+
+const loadAnalysis = cache(getAnalysis);
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { id } = await params;
+  const analysis = await loadAnalysis(id);
+  if (!analysis) return { title: "Analysis not found | Soccer mind" };
+  return {
+    title: `Report: ${analysisTitle(analysis.response, analysis.query)} | Soccer mind`,
+    robots: { index: false },
+  };
+}
+
+/** Print-first layout of a shared analysis, meant to be saved as PDF from the browser. */
+export default async function AnalysisReportPage({ params, searchParams }: Props) {
+  const { id } = await params;
+  const { print } = await searchParams;
+  const analysis = await loadAnalysis(id);
+  if (!analysis) notFound();
+
+  const { query, response } = analysis;
+  const meta = response.match_metadata;
+  const moments = toTimelineMoments(meta?.key_moments);
+  const deep = response.game_analysis?.deep_analysis;
+  const sources = collectSources(response);
+  const accent = (name?: string) => findTeam(name)?.colors.primary ?? "#404040";
+
+  return (
+    <div className="min-h-screen bg-white text-neutral-900 print:min-h-0">
+      <main className="mx-auto max-w-3xl space-y-8 px-8 py-10 print:max-w-none print:px-0 print:py-0">
+        <div className="flex items-center justify-between print:hidden">
+          <Link href={`/analysis/${id}`} className="text-xs text-neutral-500 hover:underline">
+            ← Back to analysis
+          </Link>
+          <PrintButton autoPrint={print === "1"} />
+        </div>
+
+        <header className="border-b border-neutral-200 pb-6">
+          <p className="text-xs uppercase tracking-widest text-neutral-500">
+            {[meta?.competition, meta?.match_date].filter(Boolean).join(" · ") || "Match report"}
+          </p>
+          <h1 className="mt-2 text-3xl font-bold">
+            {meta?.home_team && meta?.away_team ? (
+              <>
+                <span style={{ color: accent(meta.home_team) }}>{meta.home_team}</span>{" "}
+                <span>{meta.score?.trim() && meta.score.trim() !== "–" ? meta.score : "vs"}</span>{" "}
+                <span style={{ color: accent(meta.away_team) }}>{meta.away_team}</span>
+              </>
+            ) : (
+              matchHeadline(meta) ?? query
+            )}
+          </h1>
+          <p className="mt-3 text-sm text-neutral-600">Question: {query}</p>
+        </header>
+
+        {response.summary && (
+          <section className="break-inside-avoid-page">
+            <h2 className="mb-3 text-lg font-semibold">Summary</h2>
+            <div className="markdown-content markdown-print text-sm leading-relaxed">
+              <ReactMarkdown>{cleanText(response.summary)}</ReactMarkdown>
+            </div>
+          </section>
+        )}
+
+        {moments.length > 0 && (
+          <section className="break-inside-avoid-page">
+            <h2 className="mb-3 text-lg font-semibold">Key moments</h2>
+            <table className="w-full border-collapse text-left text-sm">
+              <thead>
+                <tr className="border-b border-neutral-300 text-xs uppercase text-neutral-500">
+                  <th className="py-2 pr-4">Min</th>
+                  <th className="py-2 pr-4">Event</th>
+                  <th className="py-2 pr-4">Team</th>
+                  <th className="py-2">Description</th>
+                </tr>
+              </thead>
+              <tbody>
+                {moments.map((moment, i) => (
+                  <tr key={i} className="break-inside-avoid border-b border-neutral-100 align-top">
+                    <td className="py-2 pr-4 font-mono">{moment.minute}&apos;</td>
+                    <td className="py-2 pr-4 capitalize">{moment.event?.replace(/_/g, " ").toLowerCase()}</td>
+                    <td className="py-2 pr-4">
+                      {moment.side === "home" ? meta?.home_team : moment.side === "away" ? meta?.away_team : moment.team}
+                    </td>
+                    <td className="py-2 text-neutral-700">{moment.description}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        )}
+
+        {deep && (
+          <section>
+            <h2 className="mb-3 text-lg font-semibold">Deep analysis</h2>
+            <div className="markdown-content markdown-print text-sm leading-relaxed">
+              <ReactMarkdown>{cleanText(deep)}</ReactMarkdown>
+            </div>
+          </section>
+        )}
+
+        {sources.length > 0 && (
+          <section className="break-inside-avoid-page">
+            <h2 className="mb-3 text-lg font-semibold">Sources</h2>
+            <ol className="list-decimal space-y-1 pl-5 text-xs text-neutral-600">
+              {sources.map((source) => (
+                <li key={source.number} className="break-all">
+                  <span className="text-neutral-900">{source.title}</span>
+                  {source.url && <> — {source.url}</>}
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+
+        <footer className="border-t border-neutral-200 pt-4 text-[10px] text-neutral-400">
+          Generated by Soccer mind on{" "}
+          {new Date(analysis.createdAt).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" })}.
+          AI may make mistakes. Please verify important information.
+        </footer>
+      </main>
+    </div>
+  );
+}
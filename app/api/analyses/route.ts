@@ -0,0 +1,75 @@
+import type { NextRequest } from "next/server";
+import { apiResponseSchema } from "@/lib/schemas";
+import { saveAnalysis } from "@/lib/server/analysisStore";
+import { clientIp, createRateLimiter } from "@/lib/server/rateLimit";
+
+export const runtime = "nodejs";
+
+const MAX_BODY_BYTES = 1_000_000;
+const MAX_QUERY_LENGTH = 1000;
+
+const limiter = createRateLimiter({ limit: 30, windowMs: 60_000 });
+
+/**
+ * The request body as text, or null once it passes `MAX_BODY_BYTES`. Read in chunks
+ * because `content-length` is optional: a chunked upload does not send it.
+ */
+const readBody = async (request: NextRequest) => {
+  if (!request.body) return "";
+  const reader = request.body.getReader();
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_BODY_BYTES) {
+      await reader.cancel();
+      return null;
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  return text + decoder.decode();
+};
+
+/** Saves an analysis the browser already has and returns its permalink. */
+export async function POST(request: NextRequest) {
+  if (!limiter.check(clientIp(request)).allowed) {
+    return Response.json({ error: { code: "rate_limited", message: "Too many share requests." } }, { status: 429 });
+  }
+  if (Number(request.headers.get("content-length")) > MAX_BODY_BYTES) {
+    return Response.json({ error: { code: "bad_request", message: "Analysis is too large to share." } }, { status: 413 });
+  }
+
+  const text = await readBody(request);
+  if (text === null) {
+    return Response.json({ error: { code: "bad_request", message: "Analysis is too large to share." } }, { status: 413 });
+  }
+
+  let body: { query?: unknown; response?: unknown };
+  try {
+    body = JSON.parse(text) ?? {};
+  } catch {
+    return Response.json({ error: { code: "bad_request", message: "Request body must be JSON." } }, { status: 400 });
+  }
+
+  const query = typeof body.query === "string" ? body.query.trim().slice(0, MAX_QUERY_LENGTH) : "";
+  const response = apiResponseSchema(body.response, "response");
+  if (!query || !response.ok) {
+    return Response.json(
+      { error: { code: "bad_request", message: "A query and a valid analysis are required.", issues: response.ok ? [] : response.issues } },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const record = await saveAnalysis({ query, response: response.value });
+    return Response.json({ id: record.id, url: `/analysis/${record.id}` }, { status: 201 });
+  } catch {
+    return Response.json(
+      { error: { code: "store_failed", message: "The analysis could not be saved. Try again later." } },
+      { status: 500 },
+    );
+  }
+}
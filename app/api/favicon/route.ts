@@ -0,0 +1,28 @@
+import type { NextRequest } from "next/server";
+import { getFavicon, normalizeDomain } from "@/lib/server/favicons";
+
+export const runtime = "nodejs";
+
+// Neutral globe shown when a site has no usable favicon.
+const FALLBACK_ICON = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 16 16" fill="none" stroke="#9ca3af" stroke-width="1.2"><circle cx="8" cy="8" r="6.5"/><path d="M1.5 8h13M8 1.5c2 2 2 11 0 13M8 1.5c-2 2-2 11 0 13"/></svg>`;
+
+/** Same-origin favicon proxy: `/api/favicon?domain=bbc.co.uk`. Never errors, so `<img>` tags never break. */
+export async function GET(request: NextRequest) {
+  const domain = normalizeDomain(request.nextUrl.searchParams.get("domain"));
+  const favicon = domain ? await getFavicon(domain) : null;
+
+  if (!favicon) {
+    return new Response(FALLBACK_ICON, {
+      headers: { "Content-Type": "image/svg+xml", "Cache-Control": "public, max-age=3600" },
+    });
+  }
+  return new Response(favicon.body as BodyInit, {
+    headers: {
+      "Content-Type": favicon.contentType,
+      "Cache-Control": "public, max-age=86400",
+      "X-Content-Type-Options": "nosniff",
+      // Icons are served from our origin, so keep any SVG payload from running script.
+      "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+    },
+  });
+}
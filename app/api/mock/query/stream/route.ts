@@ -0,0 +1,30 @@
+import type { NextRequest } from "next/server";
+import { mockOptionsFromEnv, mockOptionsFromParams, replayMockSession } from "@/lib/mock/replay";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * Stand-in for the Python backend's `/query/stream`. Enabled outside production, or
+ * in production when `ANALYSIS_MOCK=1`.
+ */
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === "production" && process.env.ANALYSIS_MOCK !== "1") {
+    return new Response("Not found", { status: 404 });
+  }
+
+  let query = "";
+  try {
+    const body = await request.json();
+    query = typeof body?.query === "string" ? body.query : "";
+  } catch {
+    return Response.json({ detail: "Request body must be JSON." }, { status: 400 });
+  }
+
+  return replayMockSession({
+    query,
+    lastEventId: request.headers.get("last-event-id"),
+    options: mockOptionsFromParams(request.nextUrl.searchParams, mockOptionsFromEnv()),
+    signal: request.signal,
+  });
+}
@@ -0,0 +1,161 @@
+import type { NextRequest } from "next/server";
+import { MEMORY_PATTERN } from "@/lib/errors";
+import { backendConfig, classifyBackendFrame, errorFrame, errorResponse, type BackendErrorPayload } from "@/lib/server/backend";
+import { clientIp, createRateLimiter } from "@/lib/server/rateLimit";
+import { formatEvent, readEventStream, SSEDecoder } from "@/lib/sse";
+import { createId } from "@/lib/thread";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const MAX_QUERY_LENGTH = 1000;
+
+const config = backendConfig();
+const limiter = createRateLimiter({ limit: config.rateLimit, windowMs: config.rateWindowMs });
+
+/**
+ * Proxies `/query/stream` on the analysis backend: rate limits per client IP, tags
+ * every request with an id, applies connect/idle timeouts and re-streams the SSE,
+ * replacing transport and backend failures with structured `error` events.
+ */
+export async function POST(request: NextRequest) {
+  const requestId = createId();
+
+  const limit = limiter.check(clientIp(request));
+  if (!limit.allowed) {
+    const retryAfter = Math.ceil(limit.retryAfterMs / 1000);
+    return errorResponse(
+      429,
+      {
+        code: "rate_limited",
+        message: `Too many requests. Try again in ${retryAfter} seconds.`,
+        request_id: requestId,
+        retry_after: retryAfter,
+      },
+      { "Retry-After": String(retryAfter) },
+    );
+  }
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = await request.json();
+  } catch {
+    return errorResponse(400, { code: "bad_request", message: "Request body must be JSON.", request_id: requestId });
+  }
+  const query = typeof payload?.query === "string" ? payload.query.trim() : "";
+  if (!query || query.length > MAX_QUERY_LENGTH) {
+    return errorResponse(400, {
+      code: "bad_request",
+      message: `Query must be between 1 and ${MAX_QUERY_LENGTH} characters.`,
+      request_id: requestId,
+    });
+  }
+
+  const backendUrl = config.mock ? `${request.nextUrl.origin}/api/mock` : config.url;
+  const upstream = new AbortController();
+  request.signal.addEventListener("abort", () => upstream.abort());
+  const lastEventId = request.headers.get("last-event-id");
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let timedOut = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const arm = (ms: number) => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          timedOut = true;
+          upstream.abort();
+        }, ms);
+      };
+      const send = (chunk: string) => controller.enqueue(encoder.encode(chunk));
+      const fail = (error: Omit<BackendErrorPayload, "request_id">) => {
+        send(errorFrame({ ...error, request_id: requestId }));
+      };
+
+      try {
+        arm(config.connectTimeoutMs);
+        let response: Response;
+        try {
+          response = await fetch(`${backendUrl}/query/stream`, {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+              Accept: "text/event-stream",
+              "X-Request-Id": requestId,
+              ...(lastEventId ? { "Last-Event-ID": lastEventId } : {}),
+            },
+            body: JSON.stringify({ ...payload, query }),
+            signal: upstream.signal,
+          });
+        } catch {
+          if (request.signal.aborted) return;
+          fail(
+            timedOut
+              ? { code: "backend_timeout", message: "The analysis service did not respond in time." }
+              : { code: "backend_unreachable", message: "The analysis service is unreachable." },
+          );
+          return;
+        }
+
+        if (!response.ok || !response.body) {
+          const detail = await response.text().catch(() => "");
+          fail(
+            MEMORY_PATTERN.test(detail)
+              ? { code: "backend_memory", message: "The analysis ran out of memory. Try a simpler query or try again later.", status: response.status }
+              : { code: "backend_http", message: `The analysis service responded with HTTP ${response.status}.`, status: response.status },
+          );
+          return;
+        }
+
+        const decoder = new SSEDecoder();
+        let emittedId = lastEventId ?? "";
+        let emittedRetry: number | null = null;
+        try {
+          arm(config.idleTimeoutMs);
+          for await (const message of readEventStream(response.body, decoder)) {
+            arm(config.idleTimeoutMs);
+            const failure = classifyBackendFrame(message.data, requestId);
+            if (failure) {
+              send(errorFrame(failure));
+              continue;
+            }
+            const id = message.lastEventId !== emittedId ? message.lastEventId : undefined;
+            const retry = decoder.retry !== emittedRetry ? decoder.retry ?? undefined : undefined;
+            emittedId = message.lastEventId;
+            emittedRetry = decoder.retry;
+            send(formatEvent({ event: message.event, data: message.data, id, retry }));
+          }
+        } catch {
+          if (request.signal.aborted) return;
+          fail(
+            timedOut
+              ? { code: "backend_timeout", message: "The analysis stalled and was stopped." }
+              : { code: "stream_interrupted", message: "The analysis stream was interrupted." },
+          );
+        }
+      } finally {
+        clearTimeout(timer);
+        try {
+          controller.close();
+        } catch {
+          // already closed because the client went away
+        }
+      }
+    },
+    cancel() {
+      upstream.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+      "X-Request-Id": requestId,
+      "X-RateLimit-Remaining": String(limit.remaining),
+    },
+  });
+}
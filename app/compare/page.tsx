@@ -0,0 +1,277 @@
+"use client";
+
+import Link from "next/link";
+import type { ReactNode } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { MatchTimeline } from "@/components/MatchTimeline";
+import { MomentumChart } from "@/components/MomentumChart";
+import { ScoreBanner } from "@/components/ScoreBanner";
+import { TacticalAnalysisPanels } from "@/components/TacticalAnalysisPanels";
+import { streamQuery, type ApiClientError } from "@/lib/client";
+import {
+  aggregateScore,
+  compareMatches,
+  prepareComparedMatch,
+  type ComparedMatch,
+  type DiffTopic,
+} from "@/lib/compare";
+import { classifyFailure } from "@/lib/errors";
+import { loadStoredOptions } from "@/lib/queryOptions";
+import { createId } from "@/lib/thread";
+
+type Slot = "a" | "b";
+
+type ColumnState = {
+  query: string;
+  status: "idle" | "streaming" | "complete" | "error";
+  match: ComparedMatch | null;
+  progress: string | null;
+  error: string | null;
+};
+
+const EMPTY_COLUMN: ColumnState = { query: "", status: "idle", match: null, progress: null, error: null };
+
+const TOPIC_LABELS: Record<DiffTopic, string> = {
+  result: "Result",
+  momentum: "Momentum",
+  tactics: "Tactics",
+};
+
+/** One row of the comparison: the same section for both matches, side by side so they line up. */
+const Row = ({ title, cells }: { title: string; cells: [ReactNode, ReactNode] }) => {
+  if (!cells[0] && !cells[1]) return null;
+  return (
+    <section className="space-y-3">
+      <h3 className="text-sm font-medium uppercase tracking-wider text-white/60">{title}</h3>
+      <div className="grid gap-6 lg:grid-cols-2">
+        {cells.map((cell, i) => (
+          <div key={i} className="min-w-0">
+            {cell ?? (
+              <div className="flex h-full min-h-24 items-center justify-center rounded-2xl border border-dashed border-white/10 text-xs text-white/30">
+                Not available for this match
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default function ComparePage() {
+  const [inputs, setInputs] = useState<Record<Slot, string>>({ a: "", b: "" });
+  const [columns, setColumns] = useState<Record<Slot, ColumnState>>({ a: EMPTY_COLUMN, b: EMPTY_COLUMN });
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const busy = columns.a.status === "streaming" || columns.b.status === "streaming";
+
+  const updateColumn = useCallback(
+    (slot: Slot, update: Partial<ColumnState>) => setColumns((prev) => ({ ...prev, [slot]: { ...prev[slot], ...update } })),
+    [],
+  );
+
+  const runColumn = useCallback(
+    async (slot: Slot, query: string, signal: AbortSignal) => {
+      updateColumn(slot, { ...EMPTY_COLUMN, query, status: "streaming", progress: "Starting analysis..." });
+      let match: ComparedMatch | null = null;
+      let error: ApiClientError | null = null;
+      try {
+        // Each side is its own thread: the two questions must not resolve against each other.
+        for await (const event of streamQuery(query, { ...loadStoredOptions(), threadId: createId(), signal })) {
+          if (event.type === "thinking") updateColumn(slot, { progress: event.event.message });
+          else if (event.type === "reconnecting") updateColumn(slot, { progress: "Connection dropped — resuming..." });
+          else if (event.type === "result") {
+            match = prepareComparedMatch(event.response);
+            updateColumn(slot, { match });
+          } else if (event.type === "error") error = event.error;
+        }
+      } catch {
+        // Failures normally arrive as events; a thrown one ends the stream, and a column
+        // without a result is reported as failed below.
+      }
+      if (signal.aborted) return;
+      if (!match || match.response.success === false) {
+        updateColumn(slot, {
+          status: "error",
+          error: classifyFailure(query, error, match?.response).title,
+          progress: null,
+        });
+        return;
+      }
+      updateColumn(slot, { status: "complete", progress: null });
+    },
+    [updateColumn],
+  );
+
+  const runComparison = useCallback(
+    (a: string, b: string) => {
+      const [left, right] = [a.trim(), b.trim()];
+      if (!left || !right) return;
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
+      const url = new URL(window.location.href);
+      url.searchParams.set("a", left);
+      url.searchParams.set("b", right);
+      window.history.replaceState(null, "", url);
+
+      void Promise.all([runColumn("a", left, controller.signal), runColumn("b", right, controller.signal)]);
+    },
+    [runColumn],
+  );
+
+  // `/compare?a=...&b=...` links run the comparison straight away.
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const a = params.get("a") || "";
+    const b = params.get("b") || "";
+    setInputs({ a, b });
+    if (a && b) runComparison(a, b);
+    return () => controllerRef.current?.abort();
+  }, [runComparison]);
+
+  const left = columns.a.match;
+  const right = columns.b.match;
+  const complete = columns.a.status === "complete" && columns.b.status === "complete";
+
+  const notes = useMemo(() => (complete && left && right ? compareMatches(left, right) : []), [complete, left, right]);
+  const aggregate = useMemo(() => (complete && left && right ? aggregateScore(left, right) : null), [complete, left, right]);
+
+  const cells = <T,>(render: (match: ComparedMatch) => T | null): [T | null, T | null] => [
+    left ? render(left) : null,
+    right ? render(right) : null,
+  ];
+
+  return (
+    <div className="relative min-h-screen bg-[#050505] font-sans text-white selection:bg-indigo-500/30">
+      <header className="flex items-center justify-between px-6 py-6 md:px-12">
+        <Link href="/" className="flex items-center gap-2">
+          <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-gradient-to-tr from-indigo-500 to-purple-500">
+            <span className="text-sm">⚽</span>
+          </div>
+          <span className="font-semibold tracking-tight text-white">SoccerAI</span>
+        </Link>
+        <Link
+          href="/"
+          className="rounded-full bg-white/10 px-5 py-2 text-sm font-medium text-white transition-colors hover:bg-white/20"
+        >
+          Back to chat
+        </Link>
+      </header>
+
+      <main className="mx-auto w-full max-w-7xl space-y-8 px-4 pb-20 pt-6">
+        <div className="space-y-2 text-center">
+          <h1 className="text-3xl font-semibold tracking-tight">Compare two matches</h1>
+          <p className="text-sm text-white/50">Two legs of a tie, or the same fixture across seasons.</p>
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            runComparison(inputs.a, inputs.b);
+          }}
+          className="grid gap-3 rounded-3xl border border-white/10 bg-[#0c0e14]/80 p-4 lg:grid-cols-[1fr_1fr_auto]"
+        >
+          {(["a", "b"] as const).map((slot) => (
+            <input
+              key={slot}
+              value={inputs[slot]}
+              onChange={(e) => setInputs((prev) => ({ ...prev, [slot]: e.target.value }))}
+              placeholder={slot === "a" ? "e.g. Real Madrid vs Man City first leg 2024" : "e.g. Man City vs Real Madrid second leg 2024"}
+              className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3 text-sm text-white placeholder:text-white/30 focus:border-indigo-400/50 focus:outline-none"
+            />
+          ))}
+          <button
+            type="submit"
+            disabled={busy || !inputs.a.trim() || !inputs.b.trim()}
+            className="rounded-2xl bg-indigo-500 px-6 py-3 text-sm font-medium text-white transition-colors hover:bg-indigo-400 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {busy ? "Comparing..." : "Compare"}
+          </button>
+        </form>
+
+        {(columns.a.status !== "idle" || columns.b.status !== "idle") && (
+          <div className="grid gap-6 lg:grid-cols-2">
+            {(["a", "b"] as const).map((slot) => {
+              const column = columns[slot];
+              return (
+                <div key={slot} className="rounded-2xl border border-white/10 bg-white/5 px-4 py-3">
+                  <p className="text-[10px] uppercase tracking-wider text-white/40">Match {slot.toUpperCase()}</p>
+                  <p className="truncate text-sm text-white/80">{column.query}</p>
+                  {column.status === "streaming" && (
+                    <p className="mt-1 animate-pulse text-xs text-indigo-300">{column.progress}</p>
+                  )}
+                  {column.status === "error" && <p className="mt-1 text-xs text-rose-300">{column.error}</p>}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {complete && (notes.length > 0 || aggregate) && (
+          <section className="rounded-3xl border border-indigo-500/20 bg-indigo-500/5 p-6">
+            <h2 className="text-lg font-medium">What changed</h2>
+            {aggregate && (
+              <p className="mt-2 text-sm text-white/70">
+                Aggregate: {aggregate.home} {aggregate.homeGoals}–{aggregate.awayGoals} {aggregate.away}
+              </p>
+            )}
+            <ul className="mt-4 space-y-2">
+              {notes.map((note, i) => (
+                <li key={i} className={`flex gap-3 text-sm ${note.changed ? "text-white" : "text-white/40"}`}>
+                  <span className="w-20 shrink-0 text-[10px] font-semibold uppercase tracking-wider text-indigo-300">
+                    {TOPIC_LABELS[note.topic]}
+                  </span>
+                  <span>{note.text}</span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {(left || right) && (
+          <div className="space-y-8">
+            <Row title="Score" cells={cells((m) => (m.response.match_metadata ? <ScoreBanner meta={m.response.match_metadata} /> : null))} />
+            <Row
+              title="Key moments"
+              cells={cells((m) =>
+                m.moments.length ? (
+                  <MatchTimeline
+                    moments={m.moments}
+                    homeTeam={m.response.match_metadata?.home_team}
+                    awayTeam={m.response.match_metadata?.away_team}
+                  />
+                ) : null,
+              )}
+            />
+            <Row
+              title="Momentum"
+              cells={cells((m) =>
+                m.momentum.length ? (
+                  <MomentumChart
+                    moments={m.momentum}
+                    homeTeam={m.response.match_metadata?.home_team}
+                    awayTeam={m.response.match_metadata?.away_team}
+                  />
+                ) : null,
+              )}
+            />
+            <Row
+              title="Tactics"
+              cells={cells((m) =>
+                m.tactics ? (
+                  <TacticalAnalysisPanels
+                    analysis={m.tactics}
+                    homeTeam={m.response.match_metadata?.home_team}
+                    awayTeam={m.response.match_metadata?.away_team}
+                  />
+                ) : null,
+              )}
+            />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
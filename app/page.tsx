@@ -1,334 +1,150 @@
 "use client";
 
 import { useEffect, useMemo, useState, useRef } from "react";
-import ReactMarkdown from "react-markdown";
-
-type ApiHighlight = {
-  title?: string;
-  url?: string;
-  duration?: string;
-  source_type?: string | null;
-  is_nbc_sports?: boolean | null;
-  is_official_club?: boolean | null;
-  confidence?: number | null;
-};
-
-type ApiKeyMoment = {
-  minute?: string;
-  event?: string;
-  description?: string;
-  team?: string;
-  momentum_impact?: string;
-  reasoning?: string;
-};
-
-type ApiMatchMetadata = {
-  home_team?: string;
-  away_team?: string;
-  match_date?: string;
-  score?: string;
-  competition?: string;
-  key_moments?: ApiKeyMoment[];
-  man_of_the_match?: string;
-  match_summary?: string;
-};
-
-type ApiResponse = {
-  success?: boolean;
-  intent?: string | null;
-  summary?: string | null;
-  match_metadata?: ApiMatchMetadata | null;
-  highlights?: ApiHighlight[] | string[];
-  sources?: string[];
-  game_analysis?: {
-    deep_analysis?: string;
-    momentum_analysis?: ApiKeyMoment[];
-    tactical_analysis?: Record<string, unknown>;
-  } | null;
-  error?: string | null;
-  answer?: string | null;
-};
-
-type ThinkingEvent = {
-  stage: string;
-  message: string;
-  status: string;
-};
-
-const LOGO_ALIASES: Record<string, string> = {
-  "arsenal": "arsenal",
-  "arsenal fc": "arsenal",
-  "aston villa": "aston-villa",
-  "aston villa fc": "aston-villa",
-  "ac milan": "ac-milan",
-  "milan": "ac-milan",
-  "athletic bilbao": "athletic-bilbao",
-  "bilbao": "athletic-bilbao",
-  "atalanta": "atalanta",
-  "barcelona": "barcelona",
-  "fc barcelona": "barcelona",
-  "barca": "barcelona",
-  "bayer leverkusen": "bayer-leverkusen",
-  "leverkusen": "bayer-leverkusen",
-  "bayern": "bayern",
-  "bayern munich": "bayern",
-  "fc bayern": "bayern",
-  "benfica": "benfica",
-  "real betis": "betis",
-  "betis": "betis",
-  "bournemouth": "bournemouth",
-  "brighton": "brighton",
-  "brighton & hove albion": "brighton",
-  "burnley": "burnley",
-  "brentford": "brentford",
-  "brentford fc": "brentford",
-  "brentford football club": "brentford",
-  "brentford fc cf": "brentford",
-  "chelsea": "chelsea",
-  "chelsea fc": "chelsea",
-  "chelsea football club": "chelsea",
-  "chelsea fc cf": "chelsea",
-  "crystal palace": "crystal-palace",
-  "palace": "crystal-palace",
-  "crystal palace fc": "crystal-palace",
-  "crystal palace football club": "crystal-palace",
-  "crystal palace fc cf": "crystal-palace",
-  "borussia dortmund": "dortmund",
-  "dortmund": "dortmund",
-  "fc dortmund": "dortmund",
-  "espanyol": "espanyol",
-  "espanyol barcelona": "espanyol",
-  "everton": "everton",
-  "everton fc": "everton",
-  "everton football club": "everton",
-  "everton fc cf": "everton",
-  "inter miami": "inter-miami",
-  "inter miami cf": "inter-miami",
-  "inter milan": "inter-milan",
-  "inter": "inter-milan",
-  "inter fc": "inter-milan",
-  "fc internazionale": "inter-milan",
-  "galatasaray": "galatasaray",
-  "galatasaray fc": "galatasaray",
-  "galatasaray football club": "galatasaray",
-  "galatasaray fc cf": "galatasaray",
-  "galatasaray afc": "galatasaray",
-  "juventus": "juventus",
-  "juve": "juventus",
-  "leeds": "leeds",
-  "leeds united": "leeds",
-  "leicester": "leicester",
-  "leicester city": "leicester",
-  "rb leipzig": "leipzig",
-  "leipzig": "leipzig",
-  "liverpool": "liverpool",
-  "liverpool fc": "liverpool",
-  "manchester city": "manchester-city",
-  "man city": "manchester-city",
-  "city": "manchester-city",
-  "manchester united": "manchester-united",
-  "man united": "manchester-united",
-  "man utd": "manchester-united",
-  "man u": "manchester-united",
-  "newcastle": "newcastle",
-  "newcastle united": "newcastle",
-  "psg": "psg",
-  "paris saint-germain": "psg",
-  "real madrid": "real-madrid",
-  "madrid": "real-madrid",
-  "as roma": "roma",
-  "roma": "roma",
-  "sevilla": "sevilla",
-  "valencia": "valencia",
-  "tottenham": "tottenham",
-  "tottenham hotspur": "tottenham",
-  "spurs": "tottenham",
-  "west ham": "westham-united",
-  "west ham united": "westham-united",
-  "bournemouth afc": "bournemouth",
-  "bournemouth football club": "bournemouth",
-  "bournemouth fc cf": "bournemouth",
-  "afc bournemouth": "bournemouth",
-  "wolves": "wolves",
-  "wolverhampton wanderers": "wolves",
-  "wolverhampton": "wolves",
-
-  "sunderland": "sunderland",
-  "bayer 04 leverkusen": "bayer-leverkusen",
-  "fc bayern munich": "bayern",
-  "fc porto": "porto",
-  "celta de vigo": "celta-vigo",
-  "celta": "celta-vigo",
-  "celta de vigo fc": "celta-vigo",
-  "celta de vigo cf": "celta-vigo",
-  "celta vigo": "celta-vigo",
-};
-
-const normalizeTeam = (name?: string) =>
-  name?.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim() || "";
-
-const logoForTeam = (name?: string) => {
-  const norm = normalizeTeam(name);
-  if (!norm) return null;
-  const mapped = LOGO_ALIASES[norm];
-  if (mapped) return `/logos/${mapped}.png`;
-  const slug = norm.replace(/\s+/g, "-");
-  return `/logos/${slug}.png`;
-};
-
-const normalizeResponse = (data: any): ApiResponse => ({
-  ...data,
-  summary: data?.summary ?? data?.answer ?? null,
-  highlights: Array.isArray(data?.highlights) ? data.highlights : [],
-  sources: Array.isArray(data?.sources) ? data.sources : [],
-});
-
-const embedUrl = (url?: string) => {
-  if (!url) return null;
-  try {
-    if (url.includes("youtube.com/watch?v=")) {
-      const videoId = new URL(url).searchParams.get("v");
-      return videoId ? `https://www.youtube.com/embed/${videoId}?autoplay=0` : url;
-    }
-    if (url.includes("youtu.be/")) {
-      const id = url.split("youtu.be/")[1]?.split("?")[0];
-      return id ? `https://www.youtube.com/embed/${id}?autoplay=0` : url;
-    }
-    return url;
-  } catch {
-    return url;
+import { AnalysisView } from "@/components/AnalysisView";
+import { ErrorRecovery } from "@/components/ErrorRecovery";
+import { ExportMenu } from "@/components/ExportMenu";
+import { HistorySidebar } from "@/components/HistorySidebar";
+import { QueryAutocomplete } from "@/components/QueryAutocomplete";
+import { QueryOptionsPanel } from "@/components/QueryOptionsPanel";
+import { ShareButton } from "@/components/ShareButton";
+import { ThinkingTrace } from "@/components/ThinkingTrace";
+import { ApiClientError, pollLiveMatch, streamQuery } from "@/lib/client";
+import {
+  deleteHistoryEntry,
+  entryToTurn,
+  listHistory,
+  loadThread,
+  saveHistoryEntry,
+  setHistoryPinned,
+  updateHistoryResponse,
+  type HistoryEntry,
+} from "@/lib/history";
+import { applyDelta } from "@/lib/delta";
+import { classifyFailure, cooldownError, missingMatchError, type AnalysisError } from "@/lib/errors";
+import { isLiveMatch } from "@/lib/live";
+import {
+  applyOptionsToSearchParams,
+  DEFAULT_QUERY_OPTIONS,
+  loadStoredOptions,
+  optionsFromSearchParams,
+  storeOptions,
+  type QueryOptions,
+} from "@/lib/queryOptions";
+import { buildThreadContext, createId } from "@/lib/thread";
+import type { ApiResponse, ConversationTurn, ThinkingEvent } from "@/lib/types";
+
+// Minimum gap between re-renders of a streaming answer.
+const DRAFT_RENDER_INTERVAL_MS = 50;
+
+const TurnResult = ({
+  turn,
+  busy,
+  latest,
+  onRetry,
+  onRecover,
+  onRephrase,
+  onAsk,
+}: {
+  turn: ConversationTurn;
+  busy: boolean;
+  /** Only the newest turn retries by itself. */
+  latest: boolean;
+  onRetry: () => void;
+  /** Retry from the error panel, counted towards the backoff. */
+  onRecover: () => void;
+  onRephrase: () => void;
+  /** Runs a new query from inside the answer, e.g. a fixture row. */
+  onAsk: (query: string) => void;
+}) => {
+  const apiData = turn.response;
+  const streaming = turn.status === "streaming";
+
+  if (!apiData && turn.status === "error") {
+    return (
+      <ErrorRecovery
+        error={turn.error ?? classifyFailure(turn.query, null)}
+        attempt={turn.attempt}
+        autoRetry={latest}
+        busy={busy}
+        onRetry={onRecover}
+        onRephrase={onRephrase}
+      />
+    );
   }
-};
 
-const ScoreBanner = ({ meta }: { meta?: ApiMatchMetadata | null }) => {
-  if (!meta) return null;
-  
-  // Only show if there's a valid score
-  if (!meta.score || meta.score === "–" || meta.score.trim() === "") return null;
-
-  const homeLogo = logoForTeam(meta.home_team);
-  const awayLogo = logoForTeam(meta.away_team);
-  const scoreText = meta.score || "–";
-  const [homeScore, awayScore] = scoreText.split("-").map((s) => s.trim());
-  const goals =
-    meta.key_moments?.filter((m) => (m.event || "").toUpperCase() === "GOAL") || [];
+  if (apiData?.success === false) {
+    return (
+      <ErrorRecovery
+        error={classifyFailure(turn.query, null, apiData)}
+        busy={busy}
+        onRetry={onRetry}
+        onRephrase={onRephrase}
+      />
+    );
+  }
 
-  const homeGoals = goals.filter(g => g.team === 'home');
-  const awayGoals = goals.filter(g => g.team === 'away');
+  const missingMatch = apiData && !streaming ? missingMatchError(turn.query, apiData) : null;
 
   return (
-    <div className="w-full overflow-hidden rounded-3xl border border-white/10 bg-[#121212] shadow-2xl">
-      {/* Header Info */}
-      <div className="flex items-center justify-between bg-[#1a1a1a] px-6 py-3 text-xs font-medium text-white/60">
-        <div className="flex items-center gap-2">
-          <span className="text-lg">⚽</span>
-          <span>{meta.competition || "Soccer Match"}</span>
-        </div>
-        <div className="flex items-center gap-4">
-           <span>{meta.match_date || "Today"}</span>
-           <span className="hidden sm:inline">•</span>
-           <span className="hidden sm:inline">Full Time</span>
-        </div>
-      </div>
-
-      {/* Teams & Score */}
-      <div className="relative flex flex-col items-center justify-center gap-8 px-6 py-8 sm:flex-row sm:gap-16">
-        {/* Home Team */}
-        <div className="flex flex-col items-center gap-3 text-center flex-1">
-          {homeLogo ? (
-            // eslint-disable-next-line @next/next/no-img-element
-            <img
-              src={homeLogo}
-              alt={meta.home_team || "Home"}
-              className="h-20 w-20 object-contain"
-            />
-          ) : (
-            <div className="flex h-20 w-20 items-center justify-center rounded-full bg-white/10 text-2xl font-bold text-white">
-              {meta.home_team?.slice(0, 2) || "H"}
-            </div>
-          )}
-          <div className="space-y-1">
-             <p className="text-lg font-bold text-white">{meta.home_team || "Home Team"}</p>
-             <div className="text-xs text-white/50 space-y-0.5">
-                {homeGoals.map((g, i) => (
-                    <p key={i}>{g.description?.split(' ')[0] || 'Goal'} {g.minute}'</p>
-                ))}
-             </div>
-          </div>
-        </div>
-
-        {/* Score Center */}
-        <div className="flex flex-col items-center gap-2">
-          <div className="flex items-center gap-4 text-5xl font-bold text-white tracking-tighter">
-            <span>{homeScore || "0"}</span>
-            <span className="text-white/20">-</span>
-            <span>{awayScore || "0"}</span>
-          </div>
-          <div className="rounded-full bg-white/5 px-3 py-1 text-[10px] font-medium uppercase tracking-widest text-white/40">
-            Full Time
+    <AnalysisView
+      data={apiData}
+      pending={streaming}
+      retrievedAt={turn.receivedAt ? new Date(turn.receivedAt).toISOString() : null}
+      onAsk={busy ? undefined : onAsk}
+      notice={
+        missingMatch ? (
+          <div className="mt-4">
+            <ErrorRecovery error={missingMatch} busy={busy} onRetry={onRetry} onRephrase={onRephrase} />
           </div>
-        </div>
-
-        {/* Away Team */}
-        <div className="flex flex-col items-center gap-3 text-center flex-1">
-          {awayLogo ? (
-            // eslint-disable-next-line @next/next/no-img-element
-            <img
-              src={awayLogo}
-              alt={meta.away_team || "Away"}
-              className="h-20 w-20 object-contain"
-            />
-          ) : (
-            <div className="flex h-20 w-20 items-center justify-center rounded-full bg-white/10 text-2xl font-bold text-white">
-              {meta.away_team?.slice(0, 2) || "A"}
+        ) : null
+      }
+      footer={
+        !streaming && (
+          <div className="mt-6 space-y-4 border-t border-white/10 pt-4">
+            {apiData && <ExportMenu query={turn.query} response={apiData} />}
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <p className="text-xs text-white/50">Not what you expected?</p>
+              <div className="flex flex-wrap items-center gap-3">
+                {apiData && <ShareButton query={turn.query} response={apiData} />}
+                <button
+                  type="button"
+                  disabled={busy}
+                  onClick={onRetry}
+                  className={`inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-2 text-xs font-medium text-white transition-colors ${busy ? "cursor-not-allowed opacity-60" : "hover:border-white/30 hover:bg-white/10"}`}
+                >
+                  Try again with the same query
+                </button>
+              </div>
             </div>
-          )}
-          <div className="space-y-1">
-             <p className="text-lg font-bold text-white">{meta.away_team || "Away Team"}</p>
-             <div className="text-xs text-white/50 space-y-0.5">
-                {awayGoals.map((g, i) => (
-                    <p key={i}>{g.description?.split(' ')[0] || 'Goal'} {g.minute}'</p>
-                ))}
-             </div>
           </div>
-        </div>
-      </div>
-
-    </div>
+        )
+      }
+    />
   );
 };
 
-const cleanText = (text: string) => {
-  // Remove "📚 Sources: ..." or "Sources: ..." lines with URLs (and everything after)
-  return text
-    .replace(/📚?\s*(?:Sources?|References?)(?:\s*:)?\s*[•\-\s]*(?:https?:\/\/[\s\S]*)/gi, "")
-    .trim();
-};
-
-const getEventIcon = (event?: string) => {
-  const e = event?.toLowerCase() || "";
-  if (e.includes("goal")) return "⚽";
-  if (e.includes("red_card") || e.includes("red card")) return "🟥";
-  if (e.includes("yellow_card") || e.includes("yellow card")) return "🟨";
-  if (e.includes("substitution") || e.includes("sub")) return "🔄";
-  if (e.includes("whistle")) return "🏁";
-  return "•";
-};
-
 export default function Home() {
   const [query, setQuery] = useState("");
-  const [includeHighlights, setIncludeHighlights] = useState(true);
-  const [emphasizeOrder, setEmphasizeOrder] = useState(true);
-  const [apiData, setApiData] = useState<ApiResponse | null>(null);
+  const [queryOptions, setQueryOptions] = useState<QueryOptions>(DEFAULT_QUERY_OPTIONS);
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [threadId, setThreadId] = useState(() => createId());
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [thinking, setThinking] = useState<ThinkingEvent[]>([]);
+  const [error, setError] = useState<AnalysisError | null>(null);
   const [streamActive, setStreamActive] = useState(false);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
   const [cooldownUntil, setCooldownUntil] = useState<number>(0);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyOpen, setHistoryOpen] = useState(false);
   const resultsRef = useRef<HTMLDivElement>(null);
   const thinkingSectionRef = useRef<HTMLDivElement>(null);
   const formRef = useRef<HTMLFormElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const activeTurn = turns.length ? turns[turns.length - 1] : null;
+  const thinking = useMemo(() => activeTurn?.thinking ?? [], [activeTurn]);
+  const busy = loading || streamActive;
+  const recentQueries = useMemo(() => history.map((entry) => entry.query), [history]);
 
   useEffect(() => {
     return () => {
@@ -344,154 +160,264 @@ export default function Home() {
     }
   }, [thinking]);
 
-  const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
+  const refreshHistory = () => {
+    listHistory()
+      .then(setHistory)
+      .catch(() => {
+        // history is best-effort (e.g. private browsing without IndexedDB)
+      });
+  };
+
+  useEffect(refreshHistory, []);
+
+  // URL parameters win over stored preferences so shared links reproduce the same filters.
+  useEffect(() => {
+    const stored = loadStoredOptions();
+    setQueryOptions(optionsFromSearchParams(new URLSearchParams(window.location.search), stored));
+  }, []);
+
+  const updateQueryOptions = (options: QueryOptions) => {
+    setQueryOptions(options);
+    storeOptions(options);
+    const url = new URL(window.location.href);
+    applyOptionsToSearchParams(url.searchParams, options);
+    window.history.replaceState(null, "", url);
+  };
+
+  const updateTurn = (turnId: string, update: (turn: ConversationTurn) => ConversationTurn) => {
+    setTurns((prev) => prev.map((turn) => (turn.id === turnId ? update(turn) : turn)));
+  };
+
+  // While the latest answer covers a match in progress, keep refreshing it in place.
+  const liveTurn =
+    activeTurn?.status === "complete" && isLiveMatch(activeTurn.response?.match_metadata) ? activeTurn : null;
+
+  const liveTurnId = liveTurn?.id ?? null;
+
+  // Read when polling starts rather than tracked, so each refresh does not restart it.
+  const pollContextRef = useRef({ turns, queryOptions, threadId });
+  useEffect(() => {
+    pollContextRef.current = { turns, queryOptions, threadId };
+  }, [turns, queryOptions, threadId]);
+
+  // Restarts only when a different turn goes live or a new query takes over.
+  useEffect(() => {
+    if (!liveTurnId || busy) return;
+    const { turns: current, queryOptions: options, threadId: thread } = pollContextRef.current;
+    const live = current.find((turn) => turn.id === liveTurnId);
+    const response = live?.response;
+    if (!live || !response) return;
+    const controller = new AbortController();
+    const context = buildThreadContext(current.filter((turn) => turn.id !== liveTurnId));
+    (async () => {
+      for await (const update of pollLiveMatch(live.query, response, {
+        ...options,
+        threadId: thread,
+        history: context,
+        signal: controller.signal,
+      })) {
+        setTurns((prev) => prev.map((turn) => (turn.id === liveTurnId ? { ...turn, response: update } : turn)));
+        updateHistoryResponse(liveTurnId, update).catch(() => {});
+      }
+    })();
+    return () => controller.abort();
+  }, [liveTurnId, busy]);
+
+  const runQuery = async (text: string, attempt = 0) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
     const now = Date.now();
     if (cooldownUntil && now < cooldownUntil) {
-      setError("Please wait a few seconds before trying again.");
+      setError(cooldownError(cooldownUntil - now));
       return;
     }
     if (abortController) {
       abortController.abort();
       setAbortController(null);
     }
+
+    const turnId = createId();
+    const context = buildThreadContext(turns);
+    let finalResponse: ApiResponse | null = null;
+    let trail: ThinkingEvent[] = [];
+    const startedAt = Date.now();
+    setTurns((prev) => [
+      ...prev,
+      { id: turnId, query: trimmed, response: null, thinking: [], error: null, status: "streaming", startedAt, attempt },
+    ]);
+    setQuery("");
     setLoading(true);
     setStreamActive(true);
     setError(null);
-    setApiData(null);
-    setThinking([]);
 
     // Scroll to results after a slight delay to let UI update
     setTimeout(() => {
       thinkingSectionRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
     }, 100);
 
-    const baseUrl = process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000";
-    const url = `${baseUrl}/query/stream`;
     const controller = new AbortController();
     setAbortController(controller);
     const newCooldown = Date.now() + 6000;
     setCooldownUntil(newCooldown);
     setTimeout(() => setCooldownUntil(0), 6000);
 
-    try {
-      const response = await fetch(url, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          query: query.trim(),
-          include_highlights: includeHighlights,
-          emphasize_order: emphasizeOrder,
-          gender: "men",
-        }),
-        signal: controller.signal,
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    let failure: ApiClientError | null = null;
+    let draft: ApiResponse | null = null;
+    let lastDraftRender = 0;
+    const flushDraft = () => {
+      const snapshot = draft;
+      lastDraftRender = Date.now();
+      if (snapshot) updateTurn(turnId, (turn) => (turn.status === "streaming" && !finalResponse ? { ...turn, response: snapshot } : turn));
+    };
+    for await (const event of streamQuery(trimmed, {
+      ...queryOptions,
+      threadId,
+      history: context,
+      signal: controller.signal,
+    })) {
+      if (event.type === "result") {
+        const finalData = event.response;
+        finalResponse = finalData;
+        // Invalid optional parts were left out of the answer; the trace says which.
+        if (event.issues.length) {
+          trail = [
+            ...trail,
+            {
+              stage: "validation",
+              message: `Left out ${event.issues.length} invalid part${event.issues.length === 1 ? "" : "s"} of the result: ${event.issues.join("; ")}`,
+              status: "error",
+              at: Date.now(),
+            },
+          ];
+        }
+        const nextTrail = trail;
+        updateTurn(turnId, (turn) => ({ ...turn, response: finalData, thinking: nextTrail }));
+      } else if (event.type === "delta") {
+        draft = applyDelta(draft, event.delta);
+        // Tokens can arrive faster than is worth rendering; the result replaces the draft anyway.
+        if (Date.now() - lastDraftRender >= DRAFT_RENDER_INTERVAL_MS) flushDraft();
+      } else if (event.type === "thinking") {
+        const nextTrail = [...trail, { ...event.event, at: Date.now() }];
+        trail = nextTrail;
+        updateTurn(turnId, (turn) => ({ ...turn, thinking: nextTrail }));
+      } else if (event.type === "reconnecting") {
+        const nextTrail = [
+          ...trail,
+          {
+            stage: "connection",
+            message: `Connection dropped — resuming the stream (attempt ${event.attempt})...`,
+            status: "processing",
+            at: Date.now(),
+          },
+        ];
+        trail = nextTrail;
+        updateTurn(turnId, (turn) => ({ ...turn, thinking: nextTrail }));
+      } else if (event.type === "error") {
+        failure = event.error;
       }
+    }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
+    if (!finalResponse) flushDraft();
+    setStreamActive(false);
+    setLoading(false);
 
-      if (!reader) {
-        throw new Error("No response body");
-      }
+    if (controller.signal.aborted) {
+      updateTurn(turnId, (turn) => ({ ...turn, status: "aborted" }));
+      return;
+    }
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) {
-          // Process any remaining buffer
-          if (buffer.trim()) {
-            const lines = buffer.split("\n");
-            for (const line of lines) {
-              if (line.startsWith("data: ")) {
-                processSSELine(line.slice(6));
-              }
-            }
-          }
-          break;
-        }
+    const response = finalResponse;
+    if (!response) {
+      const analysisError = classifyFailure(trimmed, failure);
+      setError(analysisError);
+      // A half-streamed draft is dropped so the retry prompt shows instead of a truncated answer.
+      updateTurn(turnId, (turn) => ({ ...turn, response: null, status: "error", error: analysisError }));
+      return;
+    }
 
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() || "";
+    const receivedAt = Date.now();
+    updateTurn(turnId, (turn) => ({ ...turn, status: "complete", receivedAt }));
+    saveHistoryEntry({
+      id: turnId,
+      threadId,
+      query: trimmed,
+      response,
+      thinking: trail,
+      startedAt,
+      createdAt: receivedAt,
+      pinned: false,
+    })
+      .then(refreshHistory)
+      .catch(() => {});
+  };
 
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            processSSELine(line.slice(6));
-          }
-        }
-      }
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    void runQuery(query);
+  };
 
-      setStreamActive(false);
-      setLoading(false);
-    } catch (err) {
-      if ((err as Error).name !== "AbortError") {
-        setError("No live updates available. Try another query.");
-      }
-      setStreamActive(false);
-      setLoading(false);
+  const startNewConversation = () => {
+    if (abortController) {
+      abortController.abort();
+      setAbortController(null);
     }
+    setTurns([]);
+    setThreadId(createId());
+    setQuery("");
+    setError(null);
+    setLoading(false);
+    setStreamActive(false);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
 
-    function processSSELine(data: string) {
-      if (data === "[DONE]" || !data.trim()) return;
-      try {
-        const parsed = JSON.parse(data);
-        const stageLike = parsed.stage || parsed?.data?.stage;
-        const statusLike = parsed.status || parsed?.data?.status;
-        const messageLike = parsed.message || parsed?.data?.message;
-
-        if (parsed.type === "result") {
-          const responseData = normalizeResponse(parsed.data);
-          if (responseData.success === false) {
-            setApiData({ ...responseData, error: responseData.error || "The API returned an unsuccessful response." });
-          } else {
-            setApiData(responseData);
-          }
-        } else if (parsed.type === "thinking" || stageLike) {
-          setThinking((prev) =>
-            [
-              ...prev,
-              {
-                stage: stageLike || "thinking",
-                message: messageLike || "",
-                status: statusLike || "info",
-              },
-            ].slice(-12),
-          );
-        }
-      } catch {
-        // ignore malformed
-      }
+  const openHistoryEntry = async (entry: HistoryEntry) => {
+    if (busy) return;
+    let entries = [entry];
+    try {
+      entries = await loadThread(entry.threadId);
+    } catch {
+      // fall back to re-opening just this entry
     }
+    setTurns(entries.map(entryToTurn));
+    setThreadId(entry.threadId);
+    setError(null);
+    setHistoryOpen(false);
+    setTimeout(() => {
+      document.getElementById(`turn-${entry.id}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+    }, 100);
   };
 
-  const keyMoments = useMemo(
-    () => apiData?.match_metadata?.key_moments ?? [],
-    [apiData],
-  );
-
-  const highlightCards: ApiHighlight[] = useMemo(() => {
-    if (!apiData?.highlights) return [];
-    if (Array.isArray(apiData.highlights)) {
-      return apiData.highlights.map((h) =>
-        typeof h === "string" ? { title: h } : h,
-      );
-    }
-    return [];
-  }, [apiData]);
+  const togglePinned = (entry: HistoryEntry) => {
+    setHistoryPinned(entry.id, !entry.pinned).then(refreshHistory).catch(() => {});
+  };
 
-  const primaryHighlight = useMemo(() => {
-    return highlightCards.find((h) => h.url) || null;
-  }, [highlightCards]);
+  const removeHistoryEntry = (entry: HistoryEntry) => {
+    deleteHistoryEntry(entry.id).then(refreshHistory).catch(() => {});
+  };
 
   return (
     <div className="relative min-h-screen overflow-x-hidden bg-[#050505] font-sans text-white selection:bg-indigo-500/30">
+      <HistorySidebar
+        open={historyOpen}
+        entries={history}
+        activeId={activeTurn?.id}
+        onClose={() => setHistoryOpen(false)}
+        onOpenEntry={(entry) => void openHistoryEntry(entry)}
+        onTogglePin={togglePinned}
+        onDelete={removeHistoryEntry}
+      />
+
       {/* Header */}
       <header className="absolute left-0 right-0 top-0 z-50 flex items-center justify-between px-6 py-6 md:px-12">
         <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setHistoryOpen(true)}
+            className="mr-2 flex h-8 w-8 items-center justify-center rounded-lg border border-white/10 bg-white/5 text-sm text-white/70 transition-colors hover:bg-white/10 hover:text-white"
+            aria-label="Open history"
+          >
+            ☰
+          </button>
           <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-gradient-to-tr from-indigo-500 to-purple-500">
             <span className="text-sm">⚽</span>
           </div>
@@ -499,6 +425,7 @@ export default function Home() {
         </div>
         <nav className="hidden items-center gap-8 text-sm font-medium text-white/60 md:flex">
           <a href="#" className="text-white">Home</a>
+          <a href="/compare" className="hover:text-white transition-colors">Compare</a>
           <a href="https://www.phil.chat" target="_blank" className="hover:text-white transition-colors">Contact</a>
         </nav>
         <a href="#query-input" className="rounded-full bg-white/10 px-5 py-2 text-sm font-medium text-white transition-colors hover:bg-white/20">
@@ -536,14 +463,15 @@ export default function Home() {
             <form 
               onSubmit={handleSubmit}
               ref={formRef}
-              className="relative flex items-center rounded-full border border-white/10 bg-white/5 p-2 shadow-2xl backdrop-blur-sm transition-all focus-within:border-white/20 focus-within:bg-white/10"
+              className="relative z-30 flex items-center rounded-full border border-white/10 bg-white/5 p-2 shadow-2xl backdrop-blur-sm transition-all focus-within:border-white/20 focus-within:bg-white/10"
             >
-              <input
+              <QueryAutocomplete
+                inputRef={inputRef}
                 value={query}
-                onChange={(e) => setQuery(e.target.value)}
+                onChange={setQuery}
+                recent={recentQueries}
                 placeholder="Ask about matches, team news, lineups, or tactics..."
-                className="flex-1 bg-transparent px-6 py-3 text-base text-white placeholder-white/40 outline-none"
-                required
+                className="w-full bg-transparent px-6 py-3 text-base text-white placeholder-white/40 outline-none"
               />
               <button
                 type="submit"
@@ -559,35 +487,11 @@ export default function Home() {
               </button>
             </form>
             <div className="mt-4 flex flex-wrap items-center justify-center gap-4 text-xs text-white/40">
-              <label className="flex cursor-pointer items-center gap-2 transition-colors hover:text-white/60">
-                <input
-                  type="checkbox"
-                  className="accent-indigo-500"
-                  checked={includeHighlights}
-                  onChange={(e) => setIncludeHighlights(e.target.checked)}
-                />
-                Include highlights
-              </label>
-              <label className="flex cursor-pointer items-center gap-2 transition-colors hover:text-white/60">
-                <button
-                  type="button"
-                  onClick={() => setEmphasizeOrder(!emphasizeOrder)}
-                  className={`relative h-5 w-9 rounded-full transition-colors ${emphasizeOrder ? "bg-indigo-500" : "bg-white/20"}`}
-                >
-                  <span
-                    className={`absolute top-0.5 left-0.5 h-4 w-4 rounded-full bg-white transition-transform ${emphasizeOrder ? "translate-x-4" : "translate-x-0"}`}
-                  />
-                </button>
-                Preserve team order
-              </label>
+              <QueryOptionsPanel options={queryOptions} onChange={updateQueryOptions} />
               {error && (
-                error.toLowerCase().includes('memory') ? (
-                  <div className="flex items-center gap-2 rounded-lg border border-amber-500/30 bg-amber-500/10 px-3 py-1.5">
-                    <span className="text-amber-400 text-xs">⚠️ Memory usage exceeded. Try a simpler query.</span>
-                  </div>
-                ) : (
-                  <span className="text-rose-400">• {error}</span>
-                )
+                <span className={error.category === "rate_limited" ? "text-amber-400" : "text-rose-400"}>
+                  • {error.category === "rate_limited" ? error.message : error.title}
+                </span>
               )}
             </div>
             <p className="mt-3 text-center text-[10px] text-white/30">
@@ -600,7 +504,7 @@ export default function Home() {
 
           <div ref={thinkingSectionRef} className="relative mt-10 flex w-full max-w-5xl flex-col items-center justify-center gap-12 lg:flex-row">
             {/* Thinking Chatbox - Now in Hero */}
-            {(thinking.length > 0 || loading || apiData) ? (
+            {activeTurn ? (
               <div className="w-full max-w-lg animate-in fade-in slide-in-from-bottom-4 duration-500">
                  <div className="overflow-hidden rounded-3xl border border-white/10 bg-[#0c0e14]/80 backdrop-blur-xl shadow-2xl">
                     <div className="flex items-center justify-between border-b border-white/5 bg-white/5 px-6 py-4">
@@ -675,163 +579,58 @@ export default function Home() {
             )}
           </div>
 
-        {/* Results Section - appears below or when needed */}
+        {/* Conversation Thread - one entry per question/answer */}
         <div ref={resultsRef} className="mt-24 w-full max-w-6xl scroll-mt-24">
-          {(streamActive || apiData || thinking.length > 0) && (
-            apiData?.success === false ? (
-               <div className="flex flex-col items-center justify-center rounded-3xl border border-white/10 bg-[#0c0e14]/80 p-12 text-center backdrop-blur-xl animate-in fade-in slide-in-from-bottom-4">
-                  <div className="flex h-16 w-16 items-center justify-center rounded-full bg-rose-500/10 mb-6">
-                    <span className="text-3xl">⚠️</span>
-                  </div>
-                  <h3 className="text-xl font-semibold text-white mb-2">Something unexpected happened</h3>
-                  {apiData.error && apiData.error.toLowerCase().includes('memory') ? (
-                    <div className="mb-4 rounded-lg border border-amber-500/30 bg-amber-500/10 px-4 py-3 max-w-md">
-                      <p className="text-sm font-medium text-amber-400 mb-1">Memory Usage Exceeded</p>
-                      <p className="text-xs text-amber-300/80">The request exceeded available memory. Please try a simpler query or try again later.</p>
-                    </div>
-                  ) : null}
-                  <p className="text-white/60 max-w-md mb-8">
-                    {apiData.error || "We couldn't process your request completely. Please try asking your question differently or check back later."}
-                  </p>
-                  <button
-                    onClick={() => {
-                       setApiData(null);
-                       setThinking([]);
-                       setQuery("");
-                       window.scrollTo({ top: 0, behavior: 'smooth' });
-                    }}
-                    className="rounded-full bg-white/10 px-8 py-3 text-sm font-medium text-white transition-colors hover:bg-white/20"
-                  >
-                    Try Another Query
-                  </button>
-               </div>
-            ) : (
-            <div className="rounded-3xl border border-white/10 bg-[#0c0e14]/80 p-6 backdrop-blur-xl">
-              <ScoreBanner meta={apiData?.match_metadata} />
-
-              {!apiData?.match_metadata?.score && !apiData?.match_metadata?.home_team && (
-                <div className="mt-4 rounded-2xl border border-white/10 bg-white/5 p-4 text-sm text-white/80">
-                  <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
-                    <span>No match was detected. Try the same query again.</span>
-                    <button
-                      type="button"
-                      disabled={loading || streamActive}
-                      onClick={() => {
-                        if (!loading && !streamActive) formRef.current?.requestSubmit();
-                      }}
-                      className={`rounded-full border border-white/20 px-4 py-2 text-xs font-medium text-white transition-colors ${loading || streamActive ? "cursor-not-allowed opacity-60" : "hover:border-white/40 hover:bg-white/10"}`}
-                    >
-                      Retry with same query
-                    </button>
-                  </div>
-                </div>
-              )}
-
-              <div className={`space-y-4 ${apiData?.match_metadata?.score ? "mt-6" : ""}`}>
-                <h3 className="text-lg font-medium text-white">Analysis</h3>
-                <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-inner">
-                    <div className="text-white/90 leading-relaxed markdown-content">
-                        {apiData?.summary ? (
-                            <ReactMarkdown>
-                                {cleanText(apiData.summary)}
-                            </ReactMarkdown>
-                        ) : (
-                            loading ? "Generating comprehensive analysis..." : "Analysis will appear here."
-                        )}
-                    </div>
-
-                    {apiData?.sources?.length ? (
-                        <div className="mt-6 border-t border-white/10 pt-4">
-                            <div className="flex flex-wrap gap-2">
-                            {apiData.sources.map((src, i) => {
-                                const hostname = new URL(src).hostname;
-                                return (
-                                <a
-                                    key={i}
-                                    href={src}
-            target="_blank"
-                                    className="flex items-center gap-2 rounded-full border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-white/70 hover:bg-white/10 hover:border-white/20 transition-all"
-                                >
-                                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                                    <img 
-                                    src={`https://www.google.com/s2/favicons?domain=${hostname}&sz=32`} 
-                                    alt="" 
-                                    className="h-4 w-4 rounded-sm opacity-80"
-                                    />
-                                    <span>{hostname.replace('www.', '')}</span>
-                                </a>
-                                );
-                            })}
-                            </div>
-                        </div>
-                    ) : null}
-                        {!loading && !streamActive && (
-                          <div className="mt-6 flex flex-col gap-3 border-t border-white/10 pt-4 sm:flex-row sm:items-center sm:justify-between">
-                            <p className="text-xs text-white/50">Not what you expected?</p>
-                            <button
-                              type="button"
-                              disabled={loading || streamActive}
-                              onClick={() => {
-                                if (!loading && !streamActive) formRef.current?.requestSubmit();
-                              }}
-                              className={`inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-2 text-xs font-medium text-white transition-colors ${loading || streamActive ? "cursor-not-allowed opacity-60" : "hover:border-white/30 hover:bg-white/10"}`}
-                            >
-                              Try again with the same query
-                            </button>
-                          </div>
-                        )}
-                </div>
+          {turns.length > 0 && (
+            <div className="space-y-10">
+              <div className="flex items-center justify-between">
+                <h2 className="text-sm font-medium uppercase tracking-wider text-white/60">Conversation</h2>
+                <button
+                  type="button"
+                  onClick={startNewConversation}
+                  className="rounded-full border border-white/15 bg-white/5 px-4 py-2 text-xs font-medium text-white transition-colors hover:border-white/30 hover:bg-white/10"
+                >
+                  New conversation
+                </button>
               </div>
 
-              {/* Highlights - Full Width */}
-              <div className="mt-8 rounded-2xl border border-white/10 bg-white/5 p-5">
-                <h4 className="mb-4 text-sm font-medium uppercase tracking-wider text-white/60">Highlights</h4>
-                {primaryHighlight && embedUrl(primaryHighlight.url) ? (
-                  <div className="overflow-hidden rounded-xl border border-white/10 bg-black">
-                    <iframe
-                      src={embedUrl(primaryHighlight.url) || undefined}
-                      className="aspect-video w-full"
-                      allowFullScreen
-                    />
-                  </div>
-                ) : (
-                  <div className="flex aspect-video items-center justify-center rounded-xl border border-dashed border-white/10 bg-white/5">
-                    <p className="text-xs text-white/30">Highlights will appear here</p>
-                  </div>
-                )}
-                
-                {highlightCards.length > 1 &&  (
-                  <div className="mt-3 flex flex-wrap gap-2">
-                    {highlightCards.slice(1).map((h, i) => (
-                      <a key={i} href={h.url} target="_blank" className="inline-block truncate max-w-xs text-xs text-indigo-400 hover:underline">
-                        {h.title || "External Highlight Link"}
-                      </a>
-                    ))}
+              {turns.map((turn) => (
+                <div key={turn.id} id={`turn-${turn.id}`} className="scroll-mt-24 space-y-4 animate-in fade-in slide-in-from-bottom-4">
+                  <div className="flex justify-end">
+                    <div className="max-w-xl rounded-2xl border border-white/10 bg-[#1a1b26]/90 px-4 py-3 shadow-xl">
+                      <p className="text-xs font-medium text-white">You</p>
+                      <p className="text-sm text-white/70">{turn.query}</p>
+                    </div>
                   </div>
-                )}
-              </div>
-
-              {/* Deep Analysis */}
-              <div className="mt-8 space-y-6">
-                  {/* Final Response REMOVED - Moved up */}
-                  
-                  {/* Sources moved here */}
-
+                  <TurnResult
+                    turn={turn}
+                    busy={busy}
+                    latest={turn === activeTurn}
+                    onRetry={() => {
+                      if (!busy) void runQuery(turn.query);
+                    }}
+                    onRecover={() => {
+                      if (!busy) void runQuery(turn.query, (turn.attempt ?? 0) + 1);
+                    }}
+                    onRephrase={() => {
+                      setQuery(turn.query);
+                      inputRef.current?.focus();
+                      window.scrollTo({ top: 0, behavior: 'smooth' });
+                    }}
+                    onAsk={(text) => {
+                      if (!busy) void runQuery(text);
+                    }}
+                  />
+                  <ThinkingTrace turn={turn} />
+                </div>
+              ))}
 
-                  {/* Deep Analysis */}
-                  {apiData?.game_analysis?.deep_analysis && (
-                    <div className="space-y-4">
-                      <h3 className="text-lg font-medium text-white">Tactical Breakdown</h3>
-                      <div className="rounded-2xl border border-white/10 bg-white/5 p-6 text-sm text-white/80 leading-relaxed markdown-content">
-                        <ReactMarkdown>
-                            {cleanText(apiData.game_analysis.deep_analysis)}
-                        </ReactMarkdown>
-                      </div>
-                    </div>
-                  )}
-              </div>
+              {!busy && (
+                <p className="text-center text-xs text-white/40">
+                  Ask a follow-up above — earlier answers in this conversation are sent along as context.
+                </p>
+              )}
             </div>
-            )
           )}
         </div>
       </main>
@@ -0,0 +1,203 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useMemo } from "react";
+import { checkConsistency } from "@/lib/consistency";
+import { rankHighlights } from "@/lib/highlights";
+import { toTimelineMoments } from "@/lib/match";
+import { playerSpotlight } from "@/lib/players";
+import { collectSources } from "@/lib/sources";
+import { toFixtureRows, toStandingRows } from "@/lib/standings";
+import { parseTacticalAnalysis } from "@/lib/tactics";
+import type { ApiResponse } from "@/lib/types";
+import { CitedMarkdown } from "./CitedMarkdown";
+import { FixturesTable } from "./FixturesTable";
+import { HighlightGallery } from "./HighlightGallery";
+import { MatchTimeline } from "./MatchTimeline";
+import { MomentumChart } from "./MomentumChart";
+import { PlayerSpotlight } from "./PlayerSpotlight";
+import { SourcesPanel } from "./SourcesPanel";
+import { StandingsTable } from "./StandingsTable";
+import { TacticalAnalysisPanels } from "./TacticalAnalysisPanels";
+
+/** Everything the result layouts derive from one answer, computed once per response. */
+export const useAnalysisData = (data: ApiResponse | null) => {
+  const keyMoments = useMemo(() => toTimelineMoments(data?.match_metadata?.key_moments), [data]);
+
+  const momentumMoments = useMemo(() => {
+    const momentum = data?.game_analysis?.momentum_analysis;
+    return momentum?.length ? toTimelineMoments(momentum) : keyMoments;
+  }, [data, keyMoments]);
+
+  const tactics = useMemo(() => parseTacticalAnalysis(data?.game_analysis?.tactical_analysis), [data]);
+  const sources = useMemo(() => (data ? collectSources(data) : []), [data]);
+  const highlights = useMemo(() => rankHighlights(data?.highlights), [data]);
+  const standings = useMemo(() => toStandingRows(data?.standings), [data]);
+  const fixtures = useMemo(() => toFixtureRows(data?.fixtures), [data]);
+  const players = useMemo(() => playerSpotlight(data?.match_metadata), [data]);
+  const issues = useMemo(() => checkConsistency(data?.match_metadata), [data]);
+
+  return { keyMoments, momentumMoments, tactics, sources, highlights, standings, fixtures, players, issues };
+};
+
+export type AnalysisData = ReturnType<typeof useAnalysisData>;
+
+/** The markdown answer with its numbered sources; `footer` sits at the bottom of the card. */
+export const SummaryCard = ({
+  title,
+  data,
+  derived,
+  scope,
+  pending,
+  retrievedAt,
+  footer,
+  children,
+}: {
+  title: string;
+  data: ApiResponse | null;
+  derived: AnalysisData;
+  scope: string;
+  pending: boolean;
+  retrievedAt?: string | null;
+  footer?: ReactNode;
+  /** Rendered above the markdown, e.g. stat tiles. */
+  children?: ReactNode;
+}) => (
+  <div className="space-y-4">
+    <h3 className="text-lg font-medium text-white">{title}</h3>
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-6 shadow-inner">
+      {children}
+      <div className="text-white/90 leading-relaxed markdown-content">
+        {data?.summary ? (
+          <>
+            <CitedMarkdown text={data.summary} sourceCount={derived.sources.length} scope={scope} streaming={pending} />
+            {pending && <span className="inline-block h-4 w-1.5 animate-pulse rounded-sm bg-indigo-300/80 align-middle" />}
+          </>
+        ) : pending ? (
+          "Generating comprehensive analysis..."
+        ) : (
+          "Analysis will appear here."
+        )}
+      </div>
+
+      <SourcesPanel sources={derived.sources} scope={scope} retrievedAt={retrievedAt} />
+      {footer}
+    </div>
+  </div>
+);
+
+/** Data issues are held back while the answer streams, when moments and score are still arriving. */
+export const KeyMomentsSection = ({
+  data,
+  derived,
+  pending,
+}: {
+  data: ApiResponse | null;
+  derived: AnalysisData;
+  pending: boolean;
+}) =>
+  derived.keyMoments.length > 0 ? (
+    <div className="mt-8 space-y-4">
+      <h3 className="text-lg font-medium text-white">Key Moments</h3>
+      <MatchTimeline
+        moments={derived.keyMoments}
+        homeTeam={data?.match_metadata?.home_team}
+        awayTeam={data?.match_metadata?.away_team}
+        issues={pending ? [] : derived.issues}
+      />
+      <MomentumChart
+        moments={derived.momentumMoments}
+        homeTeam={data?.match_metadata?.home_team}
+        awayTeam={data?.match_metadata?.away_team}
+      />
+    </div>
+  ) : null;
+
+/** With `onAsk`, choosing a player asks how they performed. */
+export const PlayerSpotlightSection = ({
+  data,
+  derived,
+  onAsk,
+}: {
+  data: ApiResponse | null;
+  derived: AnalysisData;
+  onAsk?: (query: string) => void;
+}) =>
+  derived.players.length > 0 || data?.match_metadata?.match_summary ? (
+    <div className="mt-8 space-y-4">
+      <h3 className="text-lg font-medium text-white">Player Spotlight</h3>
+      <PlayerSpotlight players={derived.players} meta={data?.match_metadata} onAsk={onAsk} />
+    </div>
+  ) : null;
+
+/** `always` keeps the empty placeholder, for layouts where highlights are expected. */
+export const HighlightsSection = ({ derived, always = false }: { derived: AnalysisData; always?: boolean }) =>
+  always || derived.highlights.length > 0 ? (
+    <div className="mt-8 rounded-2xl border border-white/10 bg-white/5 p-5">
+      <h4 className="mb-4 text-sm font-medium uppercase tracking-wider text-white/60">Highlights</h4>
+      <HighlightGallery items={derived.highlights} />
+    </div>
+  ) : null;
+
+export const TacticsSection = ({
+  data,
+  derived,
+  scope,
+  pending,
+}: {
+  data: ApiResponse | null;
+  derived: AnalysisData;
+  scope: string;
+  pending: boolean;
+}) =>
+  data?.game_analysis?.deep_analysis || derived.tactics ? (
+    <div className="mt-8 space-y-4">
+      <h3 className="text-lg font-medium text-white">Tactical Breakdown</h3>
+      {derived.tactics && (
+        <TacticalAnalysisPanels
+          analysis={derived.tactics}
+          homeTeam={data?.match_metadata?.home_team}
+          awayTeam={data?.match_metadata?.away_team}
+        />
+      )}
+      {data?.game_analysis?.deep_analysis && (
+        <div className="rounded-2xl border border-white/10 bg-white/5 p-6 text-sm text-white/80 leading-relaxed markdown-content">
+          <CitedMarkdown
+            text={data.game_analysis.deep_analysis}
+            sourceCount={derived.sources.length}
+            scope={scope}
+            streaming={pending}
+          />
+        </div>
+      )}
+    </div>
+  ) : null;
+
+export const StandingsSection = ({ data, derived }: { data: ApiResponse | null; derived: AnalysisData }) =>
+  derived.standings.length > 0 ? (
+    <div className="mt-8 space-y-4">
+      <h3 className="text-lg font-medium text-white">Table</h3>
+      <StandingsTable
+        rows={derived.standings}
+        caption={[data?.standings?.competition, data?.standings?.season].filter(Boolean).join(" · ") || undefined}
+      />
+    </div>
+  ) : null;
+
+/** With `onAsk`, clicking a fixture asks for the analysis of that game. */
+export const FixturesSection = ({
+  derived,
+  title = "Fixtures",
+  onAsk,
+}: {
+  derived: AnalysisData;
+  title?: string;
+  onAsk?: (query: string) => void;
+}) =>
+  derived.fixtures.length > 0 ? (
+    <div className="mt-8 space-y-4">
+      <h3 className="text-lg font-medium text-white">{title}</h3>
+      <FixturesTable rows={derived.fixtures} onSelect={onAsk} />
+      {onAsk && <p className="text-xs text-white/40">Select a game to analyse it.</p>}
+    </div>
+  ) : null;
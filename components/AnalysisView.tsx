@@ -0,0 +1,55 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { useId } from "react";
+import { resolveIntent } from "@/lib/intents";
+import type { ApiResponse } from "@/lib/types";
+import { useAnalysisData } from "./AnalysisSections";
+import { FALLBACK_LAYOUT, INTENT_LAYOUTS } from "./IntentLayouts";
+
+/**
+ * Read-only rendering of one analysis, laid out for its `intent`: a match gets the
+ * score banner, key moments, highlights and tactics; standings, player, transfer and
+ * general answers get layouts of their own. Shared by the live thread and permalinks.
+ */
+export const AnalysisView = ({
+  data: apiData,
+  pending = false,
+  notice,
+  footer,
+  retrievedAt,
+  onAsk,
+}: {
+  data: ApiResponse | null;
+  /** The answer is still streaming in. */
+  pending?: boolean;
+  /** Rendered between the header (score banner) and the analysis. */
+  notice?: ReactNode;
+  /** Rendered at the bottom of the analysis card. */
+  footer?: ReactNode;
+  /** When the answer was received (ISO string); the fallback access time for sources. */
+  retrievedAt?: string | null;
+  /** Runs a follow-up question (fixture rows and similar); omit for read-only views. */
+  onAsk?: (query: string) => void;
+}) => {
+  const citationScope = `a${useId().replace(/[^a-zA-Z0-9]/g, "")}`;
+  const derived = useAnalysisData(apiData);
+
+  const intent = resolveIntent(apiData?.intent);
+  const Layout = intent ? INTENT_LAYOUTS[intent] : FALLBACK_LAYOUT;
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-[#0c0e14]/80 p-6 backdrop-blur-xl">
+      <Layout
+        data={apiData}
+        derived={derived}
+        scope={citationScope}
+        pending={pending}
+        notice={notice}
+        footer={footer}
+        retrievedAt={retrievedAt}
+        onAsk={onAsk}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+"use client";
+
+import ReactMarkdown from "react-markdown";
+import { citationAnchor, linkCitations } from "@/lib/sources";
+import { stabilizeMarkdown } from "@/lib/markdown";
+import { cleanText } from "@/lib/text";
+
+/**
+ * Markdown whose `[n]` markers become superscript links to the matching sources
+ * panel entry. While `streaming`, half-finished markup is closed before rendering.
+ */
+export const CitedMarkdown = ({
+  text,
+  sourceCount,
+  scope,
+  streaming = false,
+}: {
+  text: string;
+  sourceCount: number;
+  scope: string;
+  streaming?: boolean;
+}) => (
+  <ReactMarkdown
+    components={{
+      a: ({ href, children }) => {
+        if (href?.startsWith(`#${scope}-source-`)) {
+          return (
+            <sup className="mx-0.5">
+              <a
+                href={href}
+                className="rounded bg-indigo-500/20 px-1 text-[10px] font-semibold text-indigo-300 no-underline hover:bg-indigo-500/40"
+              >
+                {children}
+              </a>
+            </sup>
+          );
+        }
+        return (
+          <a href={href} target="_blank" rel="noopener noreferrer" className="text-indigo-300 underline">
+            {children}
+          </a>
+        );
+      },
+    }}
+  >
+    {linkCitations(
+      streaming ? stabilizeMarkdown(cleanText(text)) : cleanText(text),
+      sourceCount,
+      (n) => `#${citationAnchor(scope, n)}`,
+    )}
+  </ReactMarkdown>
+);
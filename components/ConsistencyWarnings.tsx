@@ -0,0 +1,28 @@
+"use client";
+
+import { CONSISTENCY_LABELS, type ConsistencyIssue } from "@/lib/consistency";
+
+/** Badge for contradictions in the match data; opens to list what was found. */
+export const ConsistencyWarnings = ({ issues, className = "" }: { issues: ConsistencyIssue[]; className?: string }) =>
+  issues.length ? (
+    <details className={`group text-xs ${className}`}>
+      <summary className="inline-flex cursor-pointer list-none items-center gap-1.5 rounded-full border border-amber-400/40 bg-amber-500/15 px-3 py-1 text-[10px] font-semibold uppercase tracking-wider text-amber-200 hover:bg-amber-500/25">
+        <span aria-hidden>⚠</span>
+        {issues.length === 1 ? "1 data issue" : `${issues.length} data issues`}
+        <span className="text-amber-200/60 group-open:rotate-180" aria-hidden>
+          ▾
+        </span>
+      </summary>
+      <ul className="mt-2 space-y-1.5 rounded-xl border border-amber-400/20 bg-amber-500/5 p-3 text-left">
+        {issues.map((issue, i) => (
+          <li key={i}>
+            <span className="font-medium text-amber-200">{CONSISTENCY_LABELS[issue.code]}:</span>{" "}
+            <span className="text-white/70">{issue.message}</span>
+          </li>
+        ))}
+        <li className="pt-1 text-[11px] text-white/40">
+          The answer contradicts itself here, so treat these details with care. The issues are saved with the answer.
+        </li>
+      </ul>
+    </details>
+  ) : null;
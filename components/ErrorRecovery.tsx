@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { MAX_AUTO_RETRIES, retryDelayMs, type AnalysisError, type ErrorCategory } from "@/lib/errors";
+
+const ICONS: Record<ErrorCategory, string> = {
+  network: "📡",
+  http: "⚠️",
+  stream_interrupted: "✂️",
+  backend_unsuccessful: "⚠️",
+  match_not_found: "🔍",
+  rate_limited: "⏳",
+  payload_invalid: "🧩",
+};
+
+/** Seconds left until `deadline`, ticking once a second; null when there is no deadline. */
+const useSecondsLeft = (deadline: number | null) => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (deadline === null) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+  return deadline === null ? null : Math.max(0, Math.ceil((deadline - now) / 1000));
+};
+
+const buttonClass = (disabled: boolean) =>
+  `rounded-full border border-white/20 px-4 py-2 text-xs font-medium text-white transition-colors ${disabled ? "cursor-not-allowed opacity-60" : "hover:border-white/40 hover:bg-white/10"}`;
+
+/**
+ * Explains a failed query and offers the recovery its category calls for:
+ * transient failures retry themselves with growing delays (only on the latest
+ * turn, `autoRetry`), rate limits count down before retrying is allowed, and
+ * questions that could not be matched get rephrasing hints.
+ */
+export const ErrorRecovery = ({
+  error,
+  attempt = 0,
+  autoRetry = false,
+  busy,
+  onRetry,
+  onRephrase,
+}: {
+  error: AnalysisError;
+  attempt?: number;
+  autoRetry?: boolean;
+  busy: boolean;
+  onRetry: () => void;
+  onRephrase: () => void;
+}) => {
+  const scheduled = error.recovery === "backoff" && autoRetry && attempt < MAX_AUTO_RETRIES;
+  const [cancelled, setCancelled] = useState(false);
+  const [deadline] = useState(() =>
+    error.recovery === "countdown"
+      ? Date.now() + (error.retryAfter ?? 0) * 1000
+      : scheduled
+        ? Date.now() + retryDelayMs(attempt)
+        : null,
+  );
+  const waiting = error.recovery === "countdown" || (scheduled && !cancelled);
+  const secondsLeft = useSecondsLeft(waiting ? deadline : null);
+
+  // `onRetry` changes identity on every render; the latest one is called.
+  const onRetryRef = useRef(onRetry);
+  useEffect(() => {
+    onRetryRef.current = onRetry;
+  }, [onRetry]);
+
+  // Fires once when the backoff runs out, even if a later render sees zero again.
+  const fired = useRef(false);
+  useEffect(() => {
+    if (fired.current || !scheduled || cancelled || busy || secondsLeft !== 0) return;
+    fired.current = true;
+    onRetryRef.current();
+  }, [scheduled, cancelled, busy, secondsLeft]);
+
+  const locked = error.recovery === "countdown" && (secondsLeft ?? 0) > 0;
+
+  return (
+    <div className="rounded-2xl border border-rose-500/20 bg-rose-500/5 p-4 text-sm">
+      <div className="flex gap-3">
+        <span className="text-lg leading-none">{ICONS[error.category]}</span>
+        <div className="min-w-0 flex-1 space-y-1">
+          <p className="font-medium text-rose-200">{error.title}</p>
+          <p className="text-rose-300/80">{error.message}</p>
+          {error.suggestions?.length ? (
+            <ul className="mt-2 list-disc space-y-0.5 pl-4 text-xs text-white/60">
+              {error.suggestions.map((suggestion) => (
+                <li key={suggestion}>{suggestion}</li>
+              ))}
+            </ul>
+          ) : null}
+          {scheduled && !cancelled && (
+            <p className="text-xs text-white/50">
+              Retrying in {secondsLeft}s (attempt {attempt + 1} of {MAX_AUTO_RETRIES})…
+            </p>
+          )}
+          {error.requestId && <p className="text-[10px] text-white/30">Reference: {error.requestId}</p>}
+        </div>
+      </div>
+
+      <div className="mt-3 flex flex-wrap justify-end gap-2">
+        {scheduled && !cancelled && (
+          <button type="button" onClick={() => setCancelled(true)} className={buttonClass(false)}>
+            Stop retrying
+          </button>
+        )}
+        {error.recovery === "rephrase" && (
+          <button type="button" onClick={onRephrase} className={buttonClass(false)}>
+            Rephrase question
+          </button>
+        )}
+        <button type="button" disabled={busy || locked} onClick={onRetry} className={buttonClass(busy || locked)}>
+          {locked
+            ? `Retry in ${secondsLeft}s`
+            : scheduled && !cancelled
+              ? "Retry now"
+              : error.recovery === "rephrase"
+                ? "Retry anyway"
+                : "Retry"}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import { shareAnalysis } from "@/lib/client";
+import { analysisToMarkdown, exportFileName } from "@/lib/report";
+import type { ApiResponse } from "@/lib/types";
+
+type ExportKind = "markdown" | "pdf" | "card";
+
+const downloadText = (text: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: "text/markdown;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Markdown is built in the browser; the PDF report and PNG match card are rendered
+ * server-side, so they need the analysis saved first (`analysisId` when it already is).
+ */
+export const ExportMenu = ({
+  query,
+  response,
+  analysisId,
+}: {
+  query: string;
+  response: ApiResponse;
+  analysisId?: string;
+}) => {
+  const [busy, setBusy] = useState<ExportKind | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  const run = async (kind: ExportKind) => {
+    setFailed(false);
+    if (kind === "markdown") {
+      downloadText(analysisToMarkdown(query, response), `${exportFileName(query, response)}.md`);
+      return;
+    }
+
+    // Open the tab synchronously so popup blockers allow it, then point it at the report.
+    const tab = kind === "pdf" ? window.open("", "_blank") : null;
+    setBusy(kind);
+    try {
+      const id = analysisId ?? (await shareAnalysis(query, response)).id;
+      if (kind === "pdf") {
+        const url = `/analysis/${id}/report?print=1`;
+        if (tab) tab.location.href = url;
+        else window.open(url, "_blank");
+      } else {
+        window.location.assign(`/analysis/${id}/card?download=1`);
+      }
+    } catch {
+      tab?.close();
+      setFailed(true);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const buttonClass =
+    "rounded-full border border-white/15 bg-white/5 px-3 py-1.5 text-xs font-medium text-white/80 transition-colors hover:border-white/30 hover:bg-white/10 disabled:opacity-60";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-[10px] uppercase tracking-wider text-white/40">Export</span>
+      <button type="button" className={buttonClass} onClick={() => run("markdown")}>
+        Markdown
+      </button>
+      <button type="button" className={buttonClass} disabled={busy !== null} onClick={() => run("pdf")}>
+        {busy === "pdf" ? "Preparing..." : "PDF report"}
+      </button>
+      <button type="button" className={buttonClass} disabled={busy !== null} onClick={() => run("card")}>
+        {busy === "card" ? "Rendering..." : "Match card"}
+      </button>
+      {failed && <span className="text-xs text-rose-300">Export failed — retry</span>}
+    </div>
+  );
+};
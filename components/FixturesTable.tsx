@@ -0,0 +1,112 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { fixtureQuery, sortFixtures, type FixtureRow, type FixtureSortKey, type SortDirection } from "@/lib/standings";
+import { RowCrest } from "./StandingsTable";
+
+const COLUMNS: { key: FixtureSortKey; label: string; className: string }[] = [
+  { key: "date", label: "Date", className: "text-left" },
+  { key: "home", label: "Home", className: "text-right" },
+  { key: "away", label: "Away", className: "text-left" },
+  { key: "competition", label: "Competition", className: "hidden text-left md:table-cell" },
+];
+
+const formatDate = (date: Date | null) =>
+  date
+    ? date.toLocaleDateString("en-GB", { weekday: "short", day: "numeric", month: "short", year: "numeric", timeZone: "UTC" })
+    : "TBC";
+
+/**
+ * Fixtures and results, sortable by date, club or competition. With `onSelect`,
+ * each row is a button that asks for the analysis of that game.
+ */
+export const FixturesTable = ({
+  rows,
+  caption,
+  onSelect,
+}: {
+  rows: FixtureRow[];
+  caption?: string;
+  onSelect?: (query: string) => void;
+}) => {
+  const [sort, setSort] = useState<{ key: FixtureSortKey; direction: SortDirection }>({ key: "date", direction: "asc" });
+  const sorted = useMemo(() => sortFixtures(rows, sort.key, sort.direction), [rows, sort]);
+
+  const toggle = (key: FixtureSortKey) =>
+    setSort((current) => ({ key, direction: current.key === key && current.direction === "asc" ? "desc" : "asc" }));
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-white/10 bg-white/5">
+      <table className="w-full text-sm">
+        {caption && <caption className="px-4 pt-4 text-left text-xs font-medium uppercase tracking-wider text-white/50">{caption}</caption>}
+        <thead>
+          <tr className="border-b border-white/10 text-[11px] uppercase tracking-wider text-white/40">
+            {COLUMNS.map((column) => (
+              <th
+                key={column.key}
+                scope="col"
+                colSpan={column.key === "home" ? 2 : 1}
+                aria-sort={sort.key === column.key ? (sort.direction === "asc" ? "ascending" : "descending") : "none"}
+                className={`px-2 py-2 font-medium first:pl-4 last:pr-4 ${column.className}`}
+              >
+                <button
+                  type="button"
+                  onClick={() => toggle(column.key)}
+                  className={`hover:text-white ${sort.key === column.key ? "text-white" : ""}`}
+                >
+                  {column.label}
+                  {sort.key === column.key && <span className="ml-0.5">{sort.direction === "asc" ? "▲" : "▼"}</span>}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((row, i) => {
+            const query = fixtureQuery(row);
+            return (
+              <tr
+                key={`${row.home}-${row.away}-${row.date?.getTime() ?? i}`}
+                onClick={onSelect ? () => onSelect(query) : undefined}
+                onKeyDown={
+                  onSelect
+                    ? (e) => {
+                        if (e.key === "Enter" || e.key === " ") {
+                          e.preventDefault();
+                          onSelect(query);
+                        }
+                      }
+                    : undefined
+                }
+                tabIndex={onSelect ? 0 : undefined}
+                title={onSelect ? `Analyse ${query}` : undefined}
+                className={`border-b border-white/5 last:border-b-0 ${onSelect ? "cursor-pointer hover:bg-white/5 focus:bg-white/10 focus:outline-none" : ""}`}
+              >
+                <td className="whitespace-nowrap py-2 pl-4 pr-2 text-xs text-white/50">
+                  {formatDate(row.date)}
+                  {row.round && <span className="block text-[10px] text-white/30">{row.round}</span>}
+                </td>
+                <td className="px-2 py-2 text-right">
+                  <span className="flex items-center justify-end gap-2">
+                    <span className="truncate text-white">{row.homeTeam?.name ?? row.home}</span>
+                    <RowCrest team={row.homeTeam} name={row.home} />
+                  </span>
+                </td>
+                <td className="whitespace-nowrap px-2 py-2 text-center font-semibold tabular-nums text-white">
+                  {row.score ?? <span className="text-xs font-normal text-white/40">vs</span>}
+                </td>
+                <td className="px-2 py-2">
+                  <span className="flex items-center gap-2">
+                    <RowCrest team={row.awayTeam} name={row.away} />
+                    <span className="truncate text-white">{row.awayTeam?.name ?? row.away}</span>
+                  </span>
+                </td>
+                <td className="hidden py-2 pl-2 pr-4 text-xs text-white/50 md:table-cell">{row.competition ?? "—"}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import { parseFormation } from "@/lib/tactics";
+
+const WIDTH = 420;
+const HEIGHT = 260;
+
+// Places a side's lines from its own goal towards halfway; away mirrors home.
+const playerPositions = (lines: number[], side: "home" | "away") => {
+  const positions = [{ x: 0.05, y: 0.5 }];
+  lines.forEach((count, lineIdx) => {
+    const depth = 0.12 + (lineIdx * 0.34) / Math.max(1, lines.length - 1);
+    for (let i = 0; i < count; i++) {
+      positions.push({ x: depth, y: (i + 1) / (count + 1) });
+    }
+  });
+  return positions.map(({ x, y }) => ({
+    x: (side === "home" ? x : 1 - x) * WIDTH,
+    y: y * HEIGHT,
+  }));
+};
+
+export const FormationPitch = ({
+  homeFormation,
+  awayFormation,
+  homeTeam,
+  awayTeam,
+}: {
+  homeFormation?: string;
+  awayFormation?: string;
+  homeTeam?: string;
+  awayTeam?: string;
+}) => {
+  const homeLines = parseFormation(homeFormation);
+  const awayLines = parseFormation(awayFormation);
+  if (!homeLines && !awayLines) return null;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+      <div className="mb-3 flex items-center justify-between text-xs text-white/60">
+        <span>
+          <span className="mr-1 inline-block h-2 w-2 rounded-full bg-indigo-400" />
+          {homeTeam || "Home"} {homeFormation && <span className="text-white">{homeFormation}</span>}
+        </span>
+        <span>
+          {awayFormation && <span className="text-white">{awayFormation}</span>} {awayTeam || "Away"}
+          <span className="ml-1 inline-block h-2 w-2 rounded-full bg-rose-400" />
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full rounded-xl bg-emerald-900/40">
+        <g fill="none" stroke="rgba(255,255,255,0.25)" strokeWidth="1.5">
+          <rect x="2" y="2" width={WIDTH - 4} height={HEIGHT - 4} />
+          <line x1={WIDTH / 2} y1="2" x2={WIDTH / 2} y2={HEIGHT - 2} />
+          <circle cx={WIDTH / 2} cy={HEIGHT / 2} r="34" />
+          <rect x="2" y={HEIGHT / 2 - 60} width="60" height="120" />
+          <rect x={WIDTH - 62} y={HEIGHT / 2 - 60} width="60" height="120" />
+        </g>
+        {homeLines &&
+          playerPositions(homeLines, "home").map((p, i) => (
+            <circle key={`h${i}`} cx={p.x} cy={p.y} r="8" fill="#818cf8" stroke="#fff" strokeWidth="1.5" />
+          ))}
+        {awayLines &&
+          playerPositions(awayLines, "away").map((p, i) => (
+            <circle key={`a${i}`} cx={p.x} cy={p.y} r="8" fill="#fb7185" stroke="#fff" strokeWidth="1.5" />
+          ))}
+      </svg>
+    </div>
+  );
+};
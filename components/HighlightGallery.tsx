@@ -0,0 +1,132 @@
+"use client";
+
+import { useState } from "react";
+import { isPlayable, TRUST_LABELS, type HighlightItem, type HighlightTrust } from "@/lib/highlights";
+
+const TRUST_STYLES: Record<HighlightTrust, string> = {
+  official_club: "border-emerald-400/30 bg-emerald-500/15 text-emerald-300",
+  broadcaster: "border-sky-400/30 bg-sky-500/15 text-sky-300",
+  unverified: "border-white/10 bg-white/5 text-white/50",
+};
+
+const TrustBadge = ({ item }: { item: HighlightItem }) => (
+  <span className={`rounded-full border px-2 py-0.5 text-[10px] font-medium ${TRUST_STYLES[item.trust]}`}>
+    {item.trust === "official_club" ? "✓ " : ""}
+    {TRUST_LABELS[item.trust]}
+    {item.confidence !== null && item.trust === "unverified" ? ` · ${Math.round(item.confidence * 100)}%` : ""}
+  </span>
+);
+
+const Player = ({ item }: { item: HighlightItem }) => {
+  const video = item.video;
+  if (video?.embedUrl) {
+    return (
+      <iframe
+        key={video.embedUrl}
+        src={video.embedUrl}
+        title={item.title}
+        className="aspect-video w-full"
+        loading="lazy"
+        allow="accelerometer; encrypted-media; gyroscope; picture-in-picture; fullscreen"
+        referrerPolicy="strict-origin-when-cross-origin"
+        sandbox="allow-scripts allow-same-origin allow-presentation allow-popups"
+        allowFullScreen
+      />
+    );
+  }
+  if (video?.fileUrl) {
+    return <video key={video.fileUrl} src={video.fileUrl} controls preload="metadata" className="aspect-video w-full" />;
+  }
+
+  // Not embeddable: a link card instead of loading an unknown page into an iframe.
+  return (
+    <div className="flex aspect-video flex-col items-center justify-center gap-3 p-6 text-center">
+      <p className="text-sm text-white/70">{item.title}</p>
+      {item.url ? (
+        <a
+          href={item.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="rounded-full bg-white/10 px-4 py-2 text-xs font-medium text-white hover:bg-white/20"
+        >
+          Watch on {item.video?.host} ↗
+        </a>
+      ) : (
+        <p className="text-xs text-white/30">No link was provided for this highlight.</p>
+      )}
+    </div>
+  );
+};
+
+/** Ranked highlights: the selected one plays on top, the rest are thumbnails below. */
+export const HighlightGallery = ({ items }: { items: HighlightItem[] }) => {
+  const [selected, setSelected] = useState(0);
+
+  if (!items.length) {
+    return (
+      <div className="flex aspect-video items-center justify-center rounded-xl border border-dashed border-white/10 bg-white/5">
+        <p className="text-xs text-white/30">Highlights will appear here</p>
+      </div>
+    );
+  }
+
+  const current = items[Math.min(selected, items.length - 1)];
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-hidden rounded-xl border border-white/10 bg-black">
+        <Player item={current} />
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-white/60">
+        <span className="font-medium text-white/90">{current.title}</span>
+        <TrustBadge item={current} />
+        {current.duration && <span>{current.duration}</span>}
+      </div>
+
+      {items.length > 1 && (
+        <div className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+          {items.map((item, i) => {
+            const playable = isPlayable(item.video);
+            const active = item === current;
+            const thumb = (
+              <>
+                <div className="relative aspect-video overflow-hidden rounded-lg bg-white/5">
+                  {item.video?.thumbnail ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img src={item.video.thumbnail} alt="" loading="lazy" className="h-full w-full object-cover" />
+                  ) : (
+                    <div className="flex h-full items-center justify-center text-2xl text-white/20">{playable ? "▶" : "↗"}</div>
+                  )}
+                  {item.duration && (
+                    <span className="absolute bottom-1 right-1 rounded bg-black/80 px-1.5 py-0.5 text-[10px] font-medium text-white">
+                      {item.duration}
+                    </span>
+                  )}
+                </div>
+                <p className="mt-2 line-clamp-2 text-xs text-white/80">{item.title}</p>
+                <div className="mt-1">
+                  <TrustBadge item={item} />
+                </div>
+              </>
+            );
+            const className = `block rounded-xl border p-2 text-left transition-colors ${active ? "border-indigo-400/60 bg-indigo-500/10" : "border-white/10 hover:border-white/30 hover:bg-white/5"}`;
+
+            return playable ? (
+              <button key={i} type="button" onClick={() => setSelected(i)} className={className} aria-pressed={active}>
+                {thumb}
+              </button>
+            ) : item.url ? (
+              <a key={i} href={item.url} target="_blank" rel="noopener noreferrer" className={className}>
+                {thumb}
+              </a>
+            ) : (
+              <div key={i} className={className}>
+                {thumb}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { searchHistory, type HistoryEntry } from "@/lib/history";
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const entrySubtitle = (entry: HistoryEntry) => {
+  const meta = entry.response.match_metadata;
+  if (meta?.home_team && meta?.away_team) {
+    return `${meta.home_team} ${meta.score || "vs"} ${meta.away_team}`;
+  }
+  return meta?.competition || null;
+};
+
+export const HistorySidebar = ({
+  open,
+  entries,
+  activeId,
+  onClose,
+  onOpenEntry,
+  onTogglePin,
+  onDelete,
+}: {
+  open: boolean;
+  entries: HistoryEntry[];
+  activeId?: string | null;
+  onClose: () => void;
+  onOpenEntry: (entry: HistoryEntry) => void;
+  onTogglePin: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+}) => {
+  const [search, setSearch] = useState("");
+  const visible = useMemo(() => searchHistory(entries, search), [entries, search]);
+
+  return (
+    <>
+      {open && (
+        <div className="fixed inset-0 z-[60] bg-black/50 backdrop-blur-sm" onClick={onClose} />
+      )}
+      <aside
+        aria-hidden={!open}
+        className={`fixed left-0 top-0 z-[70] flex h-full w-80 max-w-[85vw] flex-col border-r border-white/10 bg-[#0c0e14] shadow-2xl transition-transform duration-300 ${open ? "translate-x-0" : "-translate-x-full"}`}
+      >
+        <div className="flex items-center justify-between border-b border-white/5 px-5 py-4">
+          <span className="text-xs font-semibold uppercase tracking-wider text-white/70">History</span>
+          <button
+            type="button"
+            onClick={onClose}
+            className="rounded-full px-2 text-lg text-white/40 transition-colors hover:text-white"
+            aria-label="Close history"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="px-5 py-3">
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search past analyses..."
+            className="w-full rounded-full border border-white/10 bg-white/5 px-4 py-2 text-sm text-white placeholder-white/30 outline-none focus:border-white/20"
+          />
+        </div>
+
+        <div className="flex-1 space-y-2 overflow-y-auto px-3 pb-6 custom-scrollbar">
+          {visible.length === 0 && (
+            <p className="px-2 py-6 text-center text-xs text-white/30">
+              {entries.length ? "No analyses match your search." : "Your past analyses will appear here."}
+            </p>
+          )}
+
+          {visible.map((entry) => {
+            const subtitle = entrySubtitle(entry);
+            return (
+              <div
+                key={entry.id}
+                className={`group rounded-2xl border px-3 py-2.5 transition-colors ${entry.id === activeId ? "border-indigo-500/40 bg-indigo-500/10" : "border-white/5 bg-white/[0.03] hover:border-white/15 hover:bg-white/5"}`}
+              >
+                <button type="button" onClick={() => onOpenEntry(entry)} className="w-full text-left">
+                  <p className="line-clamp-2 text-sm text-white/90">{entry.query}</p>
+                  {subtitle && <p className="mt-1 truncate text-xs text-white/50">{subtitle}</p>}
+                </button>
+                <div className="mt-2 flex items-center justify-between text-[10px] text-white/30">
+                  <span>{formatTimestamp(entry.createdAt)}</span>
+                  <div className="flex items-center gap-3">
+                    <button
+                      type="button"
+                      onClick={() => onTogglePin(entry)}
+                      className={`transition-colors ${entry.pinned ? "text-amber-400" : "hover:text-white/70"}`}
+                    >
+                      {entry.pinned ? "★ Pinned" : "☆ Pin"}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onDelete(entry)}
+                      className="transition-colors hover:text-rose-400"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </aside>
+    </>
+  );
+};
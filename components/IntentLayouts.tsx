@@ -0,0 +1,153 @@
+"use client";
+
+import type { ComponentType, ReactNode } from "react";
+import { INTENT_LABELS, keyStats, type Intent } from "@/lib/intents";
+import type { ApiResponse } from "@/lib/types";
+import {
+  FixturesSection,
+  HighlightsSection,
+  KeyMomentsSection,
+  PlayerSpotlightSection,
+  StandingsSection,
+  SummaryCard,
+  TacticsSection,
+  type AnalysisData,
+} from "./AnalysisSections";
+import { ScoreBanner, TeamCrest } from "./ScoreBanner";
+
+export type LayoutProps = {
+  data: ApiResponse | null;
+  derived: AnalysisData;
+  /** Citation anchor scope shared by the markdown and the sources list. */
+  scope: string;
+  pending: boolean;
+  notice?: ReactNode;
+  footer?: ReactNode;
+  retrievedAt?: string | null;
+  /** Runs a follow-up question, e.g. from a fixture row or a player card; absent on read-only pages. */
+  onAsk?: (query: string) => void;
+};
+
+const IntentChip = ({ intent, detail }: { intent: Intent; detail?: string | null }) => (
+  <div className="mb-4 flex flex-wrap items-center gap-2 text-xs">
+    <span className="rounded-full border border-indigo-400/30 bg-indigo-500/10 px-3 py-1 font-medium text-indigo-200">
+      {INTENT_LABELS[intent]}
+    </span>
+    {detail && <span className="text-white/50">{detail}</span>}
+  </div>
+);
+
+/** Score banner, analysis, key moments, players, highlights and tactics. */
+const MatchResultLayout = ({ data, derived, scope, pending, notice, footer, retrievedAt, onAsk }: LayoutProps) => (
+  <>
+    <ScoreBanner meta={data?.match_metadata} pending={pending} issues={pending ? [] : derived.issues} />
+    {notice}
+    <div className={data?.match_metadata?.score ? "mt-6" : "mt-4"}>
+      <SummaryCard title="Analysis" {...{ data, derived, scope, pending, retrievedAt, footer }} />
+    </div>
+    <KeyMomentsSection data={data} derived={derived} pending={pending} />
+    <PlayerSpotlightSection data={data} derived={derived} onAsk={pending ? undefined : onAsk} />
+    <HighlightsSection derived={derived} always />
+    <TacticsSection data={data} derived={derived} scope={scope} pending={pending} />
+  </>
+);
+
+/** Numeric "label: value" lines from the answer as tiles above the write-up. */
+const PlayerStatsLayout = ({ data, derived, scope, pending, notice, footer, retrievedAt }: LayoutProps) => {
+  const stats = pending ? [] : keyStats(data?.summary);
+  return (
+    <>
+      <IntentChip intent="player_stats" detail={data?.match_metadata?.competition} />
+      {notice}
+      <SummaryCard title="Player analysis" {...{ data, derived, scope, pending, retrievedAt, footer }}>
+        {stats.length > 0 && (
+          <dl className="mb-6 grid grid-cols-2 gap-3 sm:grid-cols-4">
+            {stats.map((stat) => (
+              <div key={stat.label} className="rounded-xl border border-white/10 bg-black/20 px-3 py-2">
+                <dt className="truncate text-[10px] uppercase tracking-wider text-white/40">{stat.label}</dt>
+                <dd className="text-xl font-semibold tabular-nums text-white">{stat.value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </SummaryCard>
+      <KeyMomentsSection data={data} derived={derived} pending={pending} />
+      <HighlightsSection derived={derived} />
+    </>
+  );
+};
+
+/** The league table and fixtures next to the written answer. */
+const StandingsLayout = ({ data, derived, scope, pending, notice, footer, retrievedAt, onAsk }: LayoutProps) => (
+  <>
+    <IntentChip intent="standings" detail={data?.standings?.competition ?? data?.match_metadata?.competition} />
+    {notice}
+    <SummaryCard title="Standings" {...{ data, derived, scope, pending, retrievedAt, footer }} />
+    <StandingsSection data={data} derived={derived} />
+    <FixturesSection derived={derived} onAsk={onAsk} />
+    <HighlightsSection derived={derived} />
+  </>
+);
+
+/** News depends on who reported it, so the outlets are listed up front. */
+const TransferNewsLayout = ({ data, derived, scope, pending, notice, footer, retrievedAt }: LayoutProps) => {
+  const outlets = [...new Set(derived.sources.map((source) => source.publisher || source.domain).filter(Boolean))];
+  return (
+    <>
+      <IntentChip intent="transfer_news" detail={outlets.length ? `Reported by ${outlets.slice(0, 4).join(", ")}` : null} />
+      {notice}
+      <SummaryCard title="Transfer news" {...{ data, derived, scope, pending, retrievedAt, footer }} />
+      <HighlightsSection derived={derived} />
+    </>
+  );
+};
+
+/** The two clubs face to face, without a single score; earlier meetings come from the key moments. */
+const HeadToHeadLayout = ({ data, derived, scope, pending, notice, footer, retrievedAt, onAsk }: LayoutProps) => {
+  const meta = data?.match_metadata;
+  return (
+    <>
+      <IntentChip intent="head_to_head" detail={meta?.competition} />
+      {meta?.home_team && meta.away_team && (
+        <div className="mb-6 flex items-center justify-center gap-6">
+          <div className="flex flex-col items-center gap-2 text-center">
+            <TeamCrest name={meta.home_team} fallback="H" />
+            <span className="text-sm font-medium text-white">{meta.home_team}</span>
+          </div>
+          <span className="text-sm font-semibold uppercase tracking-widest text-white/40">vs</span>
+          <div className="flex flex-col items-center gap-2 text-center">
+            <TeamCrest name={meta.away_team} fallback="A" />
+            <span className="text-sm font-medium text-white">{meta.away_team}</span>
+          </div>
+        </div>
+      )}
+      {notice}
+      <SummaryCard title="Head to head" {...{ data, derived, scope, pending, retrievedAt, footer }} />
+      <FixturesSection derived={derived} title="Meetings" onAsk={onAsk} />
+      <KeyMomentsSection data={data} derived={derived} pending={pending} />
+      <HighlightsSection derived={derived} />
+    </>
+  );
+};
+
+const GeneralQuestionLayout = ({ data, derived, scope, pending, notice, footer, retrievedAt, onAsk }: LayoutProps) => (
+  <>
+    {notice}
+    <SummaryCard title="Answer" {...{ data, derived, scope, pending, retrievedAt, footer }} />
+    <StandingsSection data={data} derived={derived} />
+    <FixturesSection derived={derived} onAsk={onAsk} />
+    <HighlightsSection derived={derived} />
+  </>
+);
+
+/** One renderer per intent; answers with an unknown intent use `FALLBACK_LAYOUT`. */
+export const INTENT_LAYOUTS: Record<Intent, ComponentType<LayoutProps>> = {
+  match_result: MatchResultLayout,
+  player_stats: PlayerStatsLayout,
+  standings: StandingsLayout,
+  transfer_news: TransferNewsLayout,
+  head_to_head: HeadToHeadLayout,
+  general_question: GeneralQuestionLayout,
+};
+
+export const FALLBACK_LAYOUT = MatchResultLayout;
@@ -0,0 +1,49 @@
+const humanize = (key: string) => key.replace(/_/g, " ").replace(/\b\w/g, (c) => c.toUpperCase());
+
+const isPlain = (value: unknown) =>
+  value === null || ["string", "number", "boolean"].includes(typeof value);
+
+/** Generic renderer for arbitrary JSON-ish values the UI has no dedicated view for. */
+export const KeyValueTree = ({ value, label }: { value: unknown; label?: string }) => {
+  if (isPlain(value)) {
+    return (
+      <div className="text-sm">
+        {label && <span className="mr-2 text-white/50">{humanize(label)}:</span>}
+        <span className="text-white/85">{String(value)}</span>
+      </div>
+    );
+  }
+
+  const entries: [string, unknown][] = Array.isArray(value)
+    ? value.map((item, i) => [String(i + 1), item])
+    : Object.entries(value as Record<string, unknown>);
+
+  if (Array.isArray(value) && value.every(isPlain)) {
+    return (
+      <div className="text-sm">
+        {label && <p className="mb-1 text-white/50">{humanize(label)}</p>}
+        <ul className="list-disc space-y-0.5 pl-5 text-white/85">
+          {value.map((item, i) => (
+            <li key={i}>{String(item)}</li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  const children = (
+    <div className="space-y-1.5 border-l border-white/10 pl-3">
+      {entries.map(([key, child]) => (
+        <KeyValueTree key={key} label={key} value={child} />
+      ))}
+    </div>
+  );
+
+  if (!label) return children;
+  return (
+    <details open className="text-sm">
+      <summary className="cursor-pointer text-white/60 hover:text-white/80">{humanize(label)}</summary>
+      <div className="mt-1.5">{children}</div>
+    </details>
+  );
+};
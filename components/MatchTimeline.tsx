@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import type { ConsistencyIssue } from "@/lib/consistency";
+import { momentKey } from "@/lib/live";
+import { getEventIcon, timelineLength, type TimelineMoment } from "@/lib/match";
+import { ConsistencyWarnings } from "./ConsistencyWarnings";
+
+const TICKS = [0, 15, 30, 45, 60, 75, 90];
+
+export const MomentCard = ({ moment, issues = [] }: { moment: TimelineMoment; issues?: ConsistencyIssue[] }) => (
+  <div className="w-64 rounded-xl border border-white/10 bg-[#1a1b26] p-3 text-left shadow-2xl">
+    <div className="flex items-center gap-2 text-xs font-semibold text-white">
+      <span>{getEventIcon(moment.event)}</span>
+      <span>{moment.minute}&apos;</span>
+      <span className="uppercase tracking-wider text-white/50">{moment.event?.replace(/_/g, " ")}</span>
+    </div>
+    {moment.description && <p className="mt-2 text-xs leading-relaxed text-white/80">{moment.description}</p>}
+    {moment.reasoning && <p className="mt-2 text-[11px] leading-relaxed text-white/50">{moment.reasoning}</p>}
+    {moment.momentum_impact && (
+      <p className="mt-2 text-[10px] uppercase tracking-wider text-indigo-300">Momentum: {moment.momentum_impact}</p>
+    )}
+    {issues.map((issue, i) => (
+      <p key={i} className="mt-2 text-[11px] leading-relaxed text-amber-200">
+        ⚠ {issue.message}
+      </p>
+    ))}
+  </div>
+);
+
+export const MatchTimeline = ({
+  moments,
+  homeTeam,
+  awayTeam,
+  issues = [],
+}: {
+  moments: TimelineMoment[];
+  homeTeam?: string;
+  awayTeam?: string;
+  /** Consistency problems; those tied to a moment mark its dot. */
+  issues?: ConsistencyIssue[];
+}) => {
+  const [active, setActive] = useState<number | null>(null);
+  if (!moments.length) return null;
+
+  const momentIssues = issues.filter((issue) => issue.moment);
+  const issuesFor = (moment: TimelineMoment) => momentIssues.filter((issue) => issue.moment === momentKey(moment));
+
+  const length = timelineLength(moments);
+  const position = (minute: number) => `${Math.min(100, (minute / length) * 100)}%`;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+      <div className="mb-4 flex items-center justify-between text-xs text-white/50">
+        <span className="font-medium uppercase tracking-wider text-white/60">Match Timeline</span>
+        <span>
+          {homeTeam || "Home"} <span className="text-white/30">above</span> · {awayTeam || "Away"}{" "}
+          <span className="text-white/30">below</span>
+        </span>
+      </div>
+      <ConsistencyWarnings issues={momentIssues} className="mb-4" />
+
+      <div className="relative mx-4 h-40">
+        <div className="absolute left-0 right-0 top-1/2 h-px bg-white/20" />
+        <div
+          className="absolute top-1/2 h-3 w-px -translate-y-1/2 bg-white/30"
+          style={{ left: position(45) }}
+        />
+
+        {TICKS.filter((tick) => tick <= length).map((tick) => (
+          <span
+            key={tick}
+            className="absolute top-1/2 mt-2 -translate-x-1/2 text-[10px] text-white/30"
+            style={{ left: position(tick) }}
+          >
+            {tick}&apos;
+          </span>
+        ))}
+        {length > 90 && (
+          <span
+            className="absolute top-1/2 mt-2 -translate-x-1/2 text-[10px] text-white/30"
+            style={{ left: position(length) }}
+          >
+            {length}&apos;
+          </span>
+        )}
+
+        {moments.map((moment, idx) => {
+          const flagged = issuesFor(moment);
+          const placement =
+            moment.side === "home"
+              ? "bottom-1/2 mb-3"
+              : moment.side === "away"
+                ? "top-1/2 mt-6"
+                : "top-1/2 -translate-y-1/2";
+          return (
+            <div
+              key={idx}
+              className={`absolute -translate-x-1/2 ${placement}`}
+              style={{ left: position(moment.minuteValue) }}
+              onMouseEnter={() => setActive(idx)}
+              onMouseLeave={() => setActive(null)}
+            >
+              <button
+                type="button"
+                onFocus={() => setActive(idx)}
+                onBlur={() => setActive(null)}
+                className={`relative flex h-7 w-7 items-center justify-center rounded-full border bg-[#1a1b26] text-sm shadow-lg transition-transform hover:scale-110 ${flagged.length ? "border-amber-400 ring-2 ring-amber-400/30" : "border-white/10"}`}
+                aria-label={`${moment.minute}' ${moment.event || "event"}${flagged.length ? ", has data issues" : ""}`}
+              >
+                {getEventIcon(moment.event)}
+                {flagged.length > 0 && (
+                  <span className="absolute -right-1 -top-1 flex h-3.5 w-3.5 items-center justify-center rounded-full bg-amber-400 text-[9px] font-bold text-black">
+                    !
+                  </span>
+                )}
+              </button>
+              {active === idx && (
+                <div
+                  className={`absolute left-1/2 z-30 -translate-x-1/2 ${moment.side === "away" ? "top-full mt-2" : "bottom-full mb-2"}`}
+                >
+                  <MomentCard moment={moment} issues={flagged} />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
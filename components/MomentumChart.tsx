@@ -0,0 +1,92 @@
+"use client";
+
+import { useId, useState } from "react";
+import { buildMomentumSeries, timelineLength, type TimelineMoment } from "@/lib/match";
+import { MomentCard } from "./MatchTimeline";
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const MID = HEIGHT / 2;
+const PADDING = 12;
+
+export const MomentumChart = ({
+  moments,
+  homeTeam,
+  awayTeam,
+}: {
+  moments: TimelineMoment[];
+  homeTeam?: string;
+  awayTeam?: string;
+}) => {
+  const clipId = useId();
+  const [active, setActive] = useState<number | null>(null);
+  const series = buildMomentumSeries(moments);
+  if (series.length < 2) return null;
+
+  const length = timelineLength(moments);
+  const peak = Math.max(1, ...series.map((point) => Math.abs(point.value)));
+  const x = (minute: number) => (Math.min(minute, length) / length) * WIDTH;
+  const y = (value: number) => MID - (value / peak) * (MID - PADDING);
+
+  const line = series.reduce(
+    (path, point, idx) => (idx === 0 ? `M 0 ${y(point.value)}` : `${path} H ${x(point.minute)} V ${y(point.value)}`),
+    "",
+  ) + ` H ${WIDTH}`;
+  const area = `${line} V ${MID} H 0 Z`;
+  const activePoint = active !== null ? series[active] : null;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+      <div className="mb-4 flex items-center justify-between text-xs">
+        <span className="font-medium uppercase tracking-wider text-white/60">Momentum Swing</span>
+        <span className="flex items-center gap-3 text-white/50">
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-indigo-400" />{homeTeam || "Home"}</span>
+          <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-full bg-rose-400" />{awayTeam || "Away"}</span>
+        </span>
+      </div>
+
+      <div className="relative">
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="h-40 w-full" preserveAspectRatio="none">
+          <defs>
+            <clipPath id={`${clipId}-home`}>
+              <rect x="0" y="0" width={WIDTH} height={MID} />
+            </clipPath>
+            <clipPath id={`${clipId}-away`}>
+              <rect x="0" y={MID} width={WIDTH} height={MID} />
+            </clipPath>
+          </defs>
+          <line x1="0" x2={WIDTH} y1={MID} y2={MID} stroke="rgba(255,255,255,0.2)" />
+          <line x1={x(45)} x2={x(45)} y1="0" y2={HEIGHT} stroke="rgba(255,255,255,0.08)" strokeDasharray="4 4" />
+          <path d={area} fill="rgba(129,140,248,0.25)" clipPath={`url(#${clipId}-home)`} />
+          <path d={area} fill="rgba(251,113,133,0.25)" clipPath={`url(#${clipId}-away)`} />
+          <path d={line} fill="none" stroke="rgba(255,255,255,0.7)" strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+        </svg>
+
+        {series.map((point, idx) =>
+          point.moment ? (
+            <button
+              key={idx}
+              type="button"
+              className="absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border border-white/60 bg-[#0c0e14] transition-transform hover:scale-150"
+              style={{ left: `${(x(point.minute) / WIDTH) * 100}%`, top: `${(y(point.value) / HEIGHT) * 100}%` }}
+              onMouseEnter={() => setActive(idx)}
+              onMouseLeave={() => setActive(null)}
+              onFocus={() => setActive(idx)}
+              onBlur={() => setActive(null)}
+              aria-label={`${point.moment.minute}' ${point.moment.event || "event"}`}
+            />
+          ) : null,
+        )}
+
+        {activePoint?.moment && (
+          <div
+            className="pointer-events-none absolute z-30 -translate-x-1/2"
+            style={{ left: `${Math.min(80, Math.max(20, (x(activePoint.minute) / WIDTH) * 100))}%`, top: "100%" }}
+          >
+            <MomentCard moment={activePoint.moment} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,126 @@
+"use client";
+
+import type { ReactNode } from "react";
+import { involvementSummary, playerQuery, type InvolvementKind, type PlayerSpotlight as Spotlight } from "@/lib/players";
+import { findTeam } from "@/lib/teams";
+import type { ApiMatchMetadata } from "@/lib/types";
+import { RowCrest } from "./StandingsTable";
+
+const KIND_ICONS: Record<InvolvementKind, string> = {
+  goal: "⚽",
+  penalty_goal: "⚽",
+  own_goal: "⚽",
+  assist: "🅰️",
+  yellow_card: "🟨",
+  red_card: "🟥",
+  sub_on: "🔼",
+  sub_off: "🔽",
+};
+
+// Cards after the man of the match; the rest are left to the timeline.
+const MAX_CONTRIBUTORS = 8;
+
+const Icons = ({ player }: { player: Spotlight }) => (
+  <span className="flex flex-wrap gap-0.5 text-sm" aria-hidden>
+    {player.involvements.map((involvement, i) => (
+      <span key={i} className={involvement.kind === "own_goal" ? "opacity-50 grayscale" : undefined}>
+        {KIND_ICONS[involvement.kind]}
+      </span>
+    ))}
+  </span>
+);
+
+/** A button when the player can be asked about, a plain card on read-only pages. */
+const Card = ({
+  query,
+  onAsk,
+  className,
+  children,
+}: {
+  query: string;
+  onAsk?: (query: string) => void;
+  className: string;
+  children: ReactNode;
+}) =>
+  onAsk ? (
+    <button
+      type="button"
+      onClick={() => onAsk(query)}
+      title={query}
+      className={`${className} text-left transition-colors hover:border-white/30 hover:bg-white/10`}
+    >
+      {children}
+    </button>
+  ) : (
+    <div className={className}>{children}</div>
+  );
+
+/**
+ * The man of the match and the players the key moments mention, with what each of
+ * them did. With `onAsk`, choosing a player asks how they performed.
+ */
+export const PlayerSpotlight = ({
+  players,
+  meta,
+  onAsk,
+}: {
+  players: Spotlight[];
+  meta?: ApiMatchMetadata | null;
+  onAsk?: (query: string) => void;
+}) => {
+  const teamName = (player: Spotlight) =>
+    player.side === "home" ? meta?.home_team : player.side === "away" ? meta?.away_team : undefined;
+  const query = (player: Spotlight) => playerQuery(player.name, meta);
+
+  const star = players.find((player) => player.manOfTheMatch);
+  const others = players.filter((player) => player !== star).slice(0, MAX_CONTRIBUTORS);
+
+  return (
+    <div className="space-y-3">
+      {meta?.match_summary && <p className="text-sm italic leading-relaxed text-white/70">{meta.match_summary}</p>}
+
+      {star && (
+        <Card
+          query={query(star)}
+          onAsk={onAsk}
+          className="flex w-full items-center gap-4 rounded-2xl border border-amber-300/30 bg-amber-400/10 p-4"
+        >
+          <span className="text-3xl" aria-hidden>
+            ⭐
+          </span>
+          <span className="min-w-0 flex-1">
+            <span className="block text-[10px] font-semibold uppercase tracking-widest text-amber-200/80">Man of the match</span>
+            <span className="block text-lg font-semibold text-white">{star.name}</span>
+            <span className="block text-xs text-white/60">
+              {[teamName(star), involvementSummary(star.involvements)].filter(Boolean).join(" · ")}
+            </span>
+          </span>
+          <Icons player={star} />
+        </Card>
+      )}
+
+      {others.length > 0 && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          {others.map((player) => {
+            const team = teamName(player);
+            return (
+              <Card
+                key={player.name}
+                query={query(player)}
+                onAsk={onAsk}
+                className="flex w-full items-start gap-3 rounded-xl border border-white/10 bg-white/5 p-3"
+              >
+                {team && <RowCrest team={findTeam(team)} name={team} />}
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-sm font-medium text-white">{player.name}</span>
+                  <span className="block text-xs text-white/50">{involvementSummary(player.involvements)}</span>
+                </span>
+                <Icons player={player} />
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+"use client";
+
+import { useEffect } from "react";
+
+/** Opens the browser print dialog (Save as PDF); `autoPrint` does so once on mount. */
+export const PrintButton = ({ autoPrint = false }: { autoPrint?: boolean }) => {
+  useEffect(() => {
+    if (!autoPrint) return;
+    // Give fonts and crests a moment to load so the first print preview is complete.
+    const timer = window.setTimeout(() => window.print(), 400);
+    return () => window.clearTimeout(timer);
+  }, [autoPrint]);
+
+  return (
+    <button
+      type="button"
+      onClick={() => window.print()}
+      className="rounded-full bg-neutral-900 px-4 py-2 text-xs font-medium text-white hover:bg-neutral-700 print:hidden"
+    >
+      Print / Save as PDF
+    </button>
+  );
+};
@@ -0,0 +1,170 @@
+"use client";
+
+import { useId, useMemo, useState, type RefObject } from "react";
+import { PLACEHOLDER, suggestQueries, type Suggestion, type SuggestionKind } from "@/lib/suggest";
+import { teamInitials, type Team } from "@/lib/teams";
+
+const GROUP_LABELS: Record<SuggestionKind, string> = {
+  team: "Clubs",
+  competition: "Competitions",
+  template: "Try asking",
+  recent: "Recent",
+};
+
+const KIND_ICONS: Record<Exclude<SuggestionKind, "team">, string> = {
+  competition: "🏆",
+  template: "✎",
+  recent: "↺",
+};
+
+const SmallCrest = ({ team }: { team: Team }) =>
+  team.logo ? (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img src={team.logo} alt="" className="h-5 w-5 object-contain" />
+  ) : (
+    <span
+      className="flex h-5 w-5 items-center justify-center rounded-full text-[8px] font-bold"
+      style={{ background: team.colors.primary, color: team.colors.secondary }}
+    >
+      {teamInitials(team.name)}
+    </span>
+  );
+
+/**
+ * The query box with suggestions for clubs, competitions, question templates and
+ * recent queries. Arrow keys move through the list, Enter or Tab accepts, Escape
+ * closes; Enter with nothing highlighted submits the form as usual.
+ */
+export const QueryAutocomplete = ({
+  value,
+  onChange,
+  inputRef,
+  recent,
+  placeholder,
+  className,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  inputRef: RefObject<HTMLInputElement | null>;
+  /** Earlier queries, newest first. */
+  recent: string[];
+  placeholder?: string;
+  className?: string;
+}) => {
+  const listId = useId();
+  const [open, setOpen] = useState(false);
+  const [active, setActive] = useState(-1);
+
+  const groups = useMemo(() => suggestQueries(value, recent), [value, recent]);
+  const items = useMemo(() => groups.flatMap((group) => group.items), [groups]);
+  const offsets = groups.map((_, i) => groups.slice(0, i).reduce((sum, group) => sum + group.items.length, 0));
+  const expanded = open && items.length > 0;
+
+  const accept = (suggestion: Suggestion) => {
+    onChange(suggestion.value);
+    setOpen(false);
+    setActive(-1);
+    // Templates land with their first placeholder selected, ready to be typed over.
+    requestAnimationFrame(() => {
+      const input = inputRef.current;
+      if (!input) return;
+      input.focus();
+      const placeholderMatch = suggestion.value.match(PLACEHOLDER);
+      if (placeholderMatch?.index !== undefined) {
+        input.setSelectionRange(placeholderMatch.index, placeholderMatch.index + placeholderMatch[0].length);
+      } else {
+        input.setSelectionRange(suggestion.value.length, suggestion.value.length);
+      }
+    });
+  };
+
+  const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      if (!items.length) return;
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setOpen(true);
+      // -1 is the input itself, so the list wraps through it.
+      setActive((index) =>
+        expanded ? ((index + 1 + step + items.length + 1) % (items.length + 1)) - 1 : step > 0 ? 0 : items.length - 1,
+      );
+      return;
+    }
+    if (!expanded) return;
+    if ((event.key === "Enter" || event.key === "Tab") && active >= 0 && active < items.length) {
+      event.preventDefault();
+      accept(items[active]);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      setOpen(false);
+      setActive(-1);
+    }
+  };
+
+  return (
+    <div className="relative flex-1">
+      <input
+        ref={inputRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setActive(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        onKeyDown={onKeyDown}
+        placeholder={placeholder}
+        className={className}
+        role="combobox"
+        aria-autocomplete="list"
+        aria-expanded={expanded}
+        aria-controls={listId}
+        aria-activedescendant={expanded && active >= 0 && active < items.length ? `${listId}-${active}` : undefined}
+        autoComplete="off"
+        spellCheck={false}
+        required
+      />
+      {expanded && (
+        <div
+          id={listId}
+          role="listbox"
+          className="absolute left-0 right-0 top-full z-40 mt-4 max-h-96 overflow-y-auto rounded-2xl border border-white/10 bg-[#0c0e14]/95 p-2 text-left shadow-2xl backdrop-blur-xl custom-scrollbar"
+        >
+          {groups.map((group, groupIndex) => (
+            <div key={group.kind} role="group" aria-label={GROUP_LABELS[group.kind]} className="py-1">
+              <p className="px-3 pb-1 text-[10px] font-semibold uppercase tracking-wider text-white/30">
+                {GROUP_LABELS[group.kind]}
+                {group.note && <span className="ml-2 normal-case tracking-normal text-amber-300/80">{group.note}</span>}
+              </p>
+              {group.items.map((item, itemIndex) => {
+                const index = offsets[groupIndex] + itemIndex;
+                return (
+                  <div
+                    key={item.id}
+                    id={`${listId}-${index}`}
+                    role="option"
+                    aria-selected={index === active}
+                    onMouseDown={(e) => {
+                      // Keep focus in the input so the blur does not close the list first.
+                      e.preventDefault();
+                      accept(item);
+                    }}
+                    onMouseEnter={() => setActive(index)}
+                    className={`flex cursor-pointer items-center gap-3 rounded-xl px-3 py-2 text-sm ${index === active ? "bg-white/10 text-white" : "text-white/70"}`}
+                  >
+                    <span className="flex w-5 shrink-0 justify-center text-white/40">
+                      {item.team ? <SmallCrest team={item.team} /> : KIND_ICONS[item.kind as Exclude<SuggestionKind, "team">]}
+                    </span>
+                    <span className="min-w-0 flex-1 truncate">{item.label}</span>
+                    {item.detail && <span className="shrink-0 text-[11px] text-white/40">{item.detail}</span>}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
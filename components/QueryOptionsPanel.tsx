@@ -0,0 +1,148 @@
+"use client";
+
+import { useState } from "react";
+import {
+  activeFilterCount,
+  COMPETITIONS,
+  DEFAULT_QUERY_OPTIONS,
+  recentSeasons,
+  updateOptions,
+  type Gender,
+  type QueryOptions,
+} from "@/lib/queryOptions";
+
+const GENDERS: { value: Gender; label: string }[] = [
+  { value: "men", label: "Men's" },
+  { value: "women", label: "Women's" },
+];
+
+const fieldClass =
+  "w-full rounded-xl border border-white/10 bg-[#0c0e14] px-3 py-2 text-xs text-white outline-none focus:border-white/25";
+
+export const QueryOptionsPanel = ({
+  options,
+  onChange,
+}: {
+  options: QueryOptions;
+  onChange: (options: QueryOptions) => void;
+}) => {
+  const [open, setOpen] = useState(false);
+  const set = <K extends keyof QueryOptions>(key: K, value: QueryOptions[K]) => onChange(updateOptions(options, { [key]: value }));
+  const filters = activeFilterCount(options);
+
+  return (
+    <div className="w-full">
+      <div className="flex flex-wrap items-center justify-center gap-4">
+        <label className="flex cursor-pointer items-center gap-2 transition-colors hover:text-white/60">
+          <input
+            type="checkbox"
+            className="accent-indigo-500"
+            checked={options.includeHighlights}
+            onChange={(e) => set("includeHighlights", e.target.checked)}
+          />
+          Include highlights
+        </label>
+        <label className="flex cursor-pointer items-center gap-2 transition-colors hover:text-white/60">
+          <button
+            type="button"
+            onClick={() => set("emphasizeOrder", !options.emphasizeOrder)}
+            className={`relative h-5 w-9 rounded-full transition-colors ${options.emphasizeOrder ? "bg-indigo-500" : "bg-white/20"}`}
+          >
+            <span
+              className={`absolute top-0.5 left-0.5 h-4 w-4 rounded-full bg-white transition-transform ${options.emphasizeOrder ? "translate-x-4" : "translate-x-0"}`}
+            />
+          </button>
+          Preserve team order
+        </label>
+        <button
+          type="button"
+          onClick={() => setOpen(!open)}
+          aria-expanded={open}
+          className="flex items-center gap-1.5 transition-colors hover:text-white/60"
+        >
+          Advanced options
+          {filters > 0 && (
+            <span className="rounded-full bg-indigo-500/30 px-1.5 text-[10px] font-semibold text-indigo-200">{filters}</span>
+          )}
+          <span className={`transition-transform ${open ? "rotate-180" : ""}`}>▾</span>
+        </button>
+      </div>
+
+      {open && (
+        <div className="mt-4 grid gap-4 rounded-2xl border border-white/10 bg-white/5 p-4 text-left sm:grid-cols-2 animate-in fade-in slide-in-from-top-2">
+          <div className="space-y-1.5 sm:col-span-2">
+            <p className="text-[10px] font-bold uppercase tracking-wider text-white/40">Football</p>
+            <div className="inline-flex rounded-full border border-white/10 p-0.5">
+              {GENDERS.map((gender) => (
+                <button
+                  key={gender.value}
+                  type="button"
+                  onClick={() => set("gender", gender.value)}
+                  className={`rounded-full px-4 py-1.5 text-xs font-medium transition-colors ${options.gender === gender.value ? "bg-indigo-500 text-white" : "text-white/50 hover:text-white/80"}`}
+                >
+                  {gender.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="space-y-1.5">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-white/40">Competition</span>
+            <select value={options.competition} onChange={(e) => set("competition", e.target.value)} className={fieldClass}>
+              <option value="">Any competition</option>
+              {COMPETITIONS.map((competition) => (
+                <option key={competition} value={competition}>
+                  {competition}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-1.5">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-white/40">Season</span>
+            <select value={options.season} onChange={(e) => set("season", e.target.value)} className={fieldClass}>
+              <option value="">Any season</option>
+              {recentSeasons().map((season) => (
+                <option key={season} value={season}>
+                  {season}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="space-y-1.5">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-white/40">From</span>
+            <input
+              type="date"
+              value={options.dateFrom}
+              max={options.dateTo || undefined}
+              onChange={(e) => set("dateFrom", e.target.value)}
+              className={`${fieldClass} [color-scheme:dark]`}
+            />
+          </label>
+
+          <label className="space-y-1.5">
+            <span className="text-[10px] font-bold uppercase tracking-wider text-white/40">To</span>
+            <input
+              type="date"
+              value={options.dateTo}
+              min={options.dateFrom || undefined}
+              onChange={(e) => set("dateTo", e.target.value)}
+              className={`${fieldClass} [color-scheme:dark]`}
+            />
+          </label>
+
+          <div className="flex justify-end sm:col-span-2">
+            <button
+              type="button"
+              onClick={() => onChange(DEFAULT_QUERY_OPTIONS)}
+              className="text-xs text-white/40 transition-colors hover:text-white/70"
+            >
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,228 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { ConsistencyIssue } from "@/lib/consistency";
+import { isLivePhase, matchPhase, momentKey, PHASE_LABELS } from "@/lib/live";
+import { getEventIcon } from "@/lib/match";
+import { cardKind } from "@/lib/players";
+import { formatScoreLine, leadingPlayer, parseScore, scoreWinner, toGoalEvent, type MatchScore, type MatchTeams } from "@/lib/score";
+import { findTeam, teamInitials } from "@/lib/teams";
+import type { ApiKeyMoment, ApiMatchMetadata } from "@/lib/types";
+import { ConsistencyWarnings } from "./ConsistencyWarnings";
+
+export const TeamCrest = ({ name, fallback }: { name?: string; fallback: string }) => {
+  const team = findTeam(name);
+  const ring = team ? { boxShadow: `0 0 0 3px ${team.colors.primary}` } : undefined;
+
+  if (team?.logo) {
+    return (
+      <div className="flex h-20 w-20 items-center justify-center rounded-full bg-white/5 p-2" style={ring}>
+        {/* eslint-disable-next-line @next/next/no-img-element */}
+        <img src={team.logo} alt={name || fallback} className="h-full w-full object-contain" />
+      </div>
+    );
+  }
+
+  // No crest on file: show the initials on the club colours instead of guessing a path.
+  return (
+    <div
+      className="flex h-20 w-20 items-center justify-center rounded-full bg-white/10 text-2xl font-bold text-white"
+      style={team ? { background: team.colors.primary, color: team.colors.secondary } : undefined}
+    >
+      {name ? teamInitials(name) : fallback}
+    </div>
+  );
+};
+
+// How long a newly arrived event or score stays highlighted.
+const FRESH_MS = 4000;
+
+const TeamEvents = ({
+  events,
+  fresh,
+  teams,
+}: {
+  events: ApiKeyMoment[];
+  fresh: Set<string>;
+  teams: MatchTeams;
+}) => (
+  <div className="text-xs text-white/50 space-y-0.5">
+    {events.map((event, i) => {
+      const key = momentKey(event);
+      const goal = toGoalEvent(event, teams);
+      return (
+        <p key={`${key}#${i}`} className={fresh.has(key) ? "live-pop text-white" : undefined}>
+          <span className="mr-1">{getEventIcon(event.event)}</span>
+          {goal ? (
+            <>
+              {goal.scorer || "Goal"}
+              {goal.penalty && " (pen)"}
+              {goal.ownGoal && " (og)"} {event.minute}&apos;
+              {goal.assist && <span className="block text-[10px] text-white/35">assist {goal.assist}</span>}
+            </>
+          ) : (
+            <>
+              {event.player || leadingPlayer(event.description || "", teams) || "Card"} {event.minute}&apos;
+            </>
+          )}
+        </p>
+      );
+    })}
+  </div>
+);
+
+/** How a finished match ended, from the score or a status such as "AET" or "AP". */
+const finishLabel = (score: MatchScore | null, status = "") => {
+  if (score?.penalties || /^(ap|after penalties)$/i.test(status.trim())) return "After penalties";
+  if (score?.extraTime || /^(aet|after extra time)$/i.test(status.trim())) return "After extra time";
+  return PHASE_LABELS.FT;
+};
+
+/** Half-time, 90-minute, shoot-out and aggregate scores, for the line under the main score. */
+const scoreDetails = (score: MatchScore) =>
+  [
+    score.halfTime && score.halfTime !== score.final && `HT ${formatScoreLine(score.halfTime)}`,
+    score.regularTime && score.regularTime !== score.final && `90' ${formatScoreLine(score.regularTime)}`,
+    score.extraTime && !score.penalties && "AET",
+    score.penalties && `Pens ${formatScoreLine(score.penalties)}`,
+    score.aggregate && `Agg ${formatScoreLine(score.aggregate)}`,
+  ].filter((detail): detail is string => Boolean(detail));
+
+export const ScoreBanner = ({
+  meta,
+  pending = false,
+  issues = [],
+}: {
+  meta?: ApiMatchMetadata | null;
+  /** The answer is still streaming: show the teams as soon as they are known, before the score. */
+  pending?: boolean;
+  /** Contradictions found in `meta`, shown as a warning under the header. */
+  issues?: ConsistencyIssue[];
+}) => {
+  const phase = matchPhase(meta);
+  const live = isLivePhase(phase);
+  // Goals and cards only; goals that did not stand (ruled out, overturned) are left off the scorers.
+  const events = (meta?.key_moments ?? []).filter((m) => toGoalEvent(m, meta) !== null || cardKind(m) !== null);
+  const eventKeys = events.map(momentKey).join("\n");
+
+  // Keys already on screen; anything else that appears is animated in, then marked as seen.
+  const [seen, setSeen] = useState<{ events: Set<string>; score?: string }>(() => ({
+    events: new Set(eventKeys ? eventKeys.split("\n") : []),
+    score: meta?.score,
+  }));
+  useEffect(() => {
+    const timer = window.setTimeout(
+      () => setSeen({ events: new Set(eventKeys ? eventKeys.split("\n") : []), score: meta?.score }),
+      FRESH_MS,
+    );
+    return () => window.clearTimeout(timer);
+  }, [eventKeys, meta?.score]);
+
+  if (!meta) return null;
+
+  // Only show if there's a valid score, the match is under way, or the teams are streaming in
+  const score = parseScore(meta.score);
+  const hasScore = score !== null;
+  const awaitingScore = !hasScore && !live && pending && Boolean(meta.home_team && meta.away_team);
+  if (!hasScore && !live && !awaitingScore) return null;
+
+  const [homeScore, awayScore] = score
+    ? [String(score.final.home), String(score.final.away)]
+    : awaitingScore
+      ? ["–", "–"]
+      : ["0", "0"];
+  const details = score ? scoreDetails(score) : [];
+  // Ties settled beyond this match's score: say who went through and how.
+  const decidedBy =
+    score?.aggregate && score.aggregate.home !== score.aggregate.away
+      ? "on aggregate"
+      : score?.penalties
+        ? "on penalties"
+        : null;
+  const winner = score && decidedBy ? scoreWinner(score) : null;
+  const winnerName = winner === "home" ? meta.home_team : winner === "away" ? meta.away_team : null;
+  const fresh = new Set(events.map(momentKey).filter((key) => !seen.events.has(key)));
+  const scoreChanged = hasScore && seen.score !== meta.score;
+  const statusLabel =
+    phase && phase !== "FT" ? PHASE_LABELS[phase] : awaitingScore ? "Loading" : finishLabel(score, meta.status);
+
+  const homeEvents = events.filter((e) => e.team === "home");
+  const awayEvents = events.filter((e) => e.team === "away");
+
+  return (
+    <div className={`w-full overflow-hidden rounded-3xl border bg-[#121212] shadow-2xl ${live ? "border-rose-500/30" : "border-white/10"}`}>
+      {/* Header Info */}
+      <div className="flex items-center justify-between bg-[#1a1a1a] px-6 py-3 text-xs font-medium text-white/60">
+        <div className="flex items-center gap-2">
+          <span className="text-lg">⚽</span>
+          <span>{meta.competition || "Soccer Match"}</span>
+        </div>
+        <div className="flex items-center gap-4">
+          {meta.match_date && <span>{meta.match_date}</span>}
+          {meta.match_date && <span className="hidden sm:inline">•</span>}
+          <span className="hidden sm:inline">{statusLabel}</span>
+        </div>
+      </div>
+
+      <ConsistencyWarnings issues={issues} className="px-6 pt-3" />
+
+      {/* Teams & Score */}
+      <div className="relative flex flex-col items-center justify-center gap-8 px-6 py-8 sm:flex-row sm:gap-16">
+        {/* Home Team */}
+        <div className="flex flex-col items-center gap-3 text-center flex-1">
+          <TeamCrest name={meta.home_team} fallback="H" />
+          <div className="space-y-1">
+             <p className="text-lg font-bold text-white">{meta.home_team || "Home Team"}</p>
+             <TeamEvents events={homeEvents} fresh={fresh} teams={meta} />
+          </div>
+        </div>
+
+        {/* Score Center */}
+        <div className="flex flex-col items-center gap-2">
+          <div
+            key={meta.score ?? ""}
+            className={`flex items-center gap-4 text-5xl font-bold text-white tracking-tighter ${scoreChanged ? "live-pop" : ""}`}
+          >
+            <span>{homeScore}</span>
+            <span className="text-white/20">–</span>
+            <span>{awayScore}</span>
+          </div>
+          {details.length > 0 && (
+            <div className="flex flex-wrap justify-center gap-x-3 text-[11px] font-medium tabular-nums text-white/50">
+              {details.map((detail) => (
+                <span key={detail}>{detail}</span>
+              ))}
+            </div>
+          )}
+          {winnerName && (
+            <p className="text-xs text-white/60">
+              {winnerName} win {decidedBy}
+            </p>
+          )}
+          {live ? (
+            <div className="flex items-center gap-2 rounded-full bg-rose-500/15 px-3 py-1 text-[10px] font-semibold uppercase tracking-widest text-rose-300">
+              <span className="h-1.5 w-1.5 animate-pulse rounded-full bg-rose-400" />
+              <span>Live</span>
+              {phase !== "HT" && phase !== "PEN" && meta.minute && <span>{meta.minute}&apos;</span>}
+              <span className="text-rose-300/70">{phase}</span>
+            </div>
+          ) : (
+            <div className="rounded-full bg-white/5 px-3 py-1 text-[10px] font-medium uppercase tracking-widest text-white/40">
+              {statusLabel}
+            </div>
+          )}
+        </div>
+
+        {/* Away Team */}
+        <div className="flex flex-col items-center gap-3 text-center flex-1">
+          <TeamCrest name={meta.away_team} fallback="A" />
+          <div className="space-y-1">
+             <p className="text-lg font-bold text-white">{meta.away_team || "Away Team"}</p>
+             <TeamEvents events={awayEvents} fresh={fresh} teams={meta} />
+          </div>
+        </div>
+      </div>
+
+    </div>
+  );
+};
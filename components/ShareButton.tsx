@@ -0,0 +1,40 @@
+"use client";
+
+import { useState } from "react";
+import { shareAnalysis } from "@/lib/client";
+import type { ApiResponse } from "@/lib/types";
+
+export const ShareButton = ({ query, response }: { query: string; response: ApiResponse }) => {
+  const [link, setLink] = useState<string | null>(null);
+  const [status, setStatus] = useState<"idle" | "saving" | "copied" | "error">("idle");
+
+  const share = async () => {
+    setStatus("saving");
+    try {
+      const url = link ?? new URL((await shareAnalysis(query, response)).url, window.location.origin).toString();
+      setLink(url);
+      await navigator.clipboard?.writeText(url).catch(() => {});
+      setStatus("copied");
+    } catch {
+      setStatus("error");
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      {link && (
+        <a href={link} target="_blank" className="max-w-[200px] truncate text-xs text-indigo-400 hover:underline">
+          {link}
+        </a>
+      )}
+      <button
+        type="button"
+        onClick={share}
+        disabled={status === "saving"}
+        className="inline-flex items-center gap-2 rounded-full border border-white/15 bg-white/5 px-4 py-2 text-xs font-medium text-white transition-colors hover:border-white/30 hover:bg-white/10 disabled:opacity-60"
+      >
+        {status === "saving" ? "Creating link..." : status === "copied" ? "Link copied" : status === "error" ? "Sharing failed — retry" : "Share link"}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import { citationAnchor, type SourceEntry } from "@/lib/sources";
+import { faviconUrl } from "@/lib/url";
+
+const formatAccessed = (value: string | null) => {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  return date.toLocaleString("en-GB", { day: "numeric", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" });
+};
+
+/** Numbered sources that the `[n]` footnotes in the analysis link to. */
+export const SourcesPanel = ({
+  sources,
+  scope,
+  retrievedAt,
+}: {
+  sources: SourceEntry[];
+  scope: string;
+  /** When the answer was received; shown for sources without their own access time. */
+  retrievedAt?: string | null;
+}) => {
+  if (!sources.length) return null;
+
+  return (
+    <div className="mt-6 border-t border-white/10 pt-4">
+      <h4 className="mb-3 text-xs font-medium uppercase tracking-wider text-white/50">Sources</h4>
+      <ol className="space-y-2">
+        {sources.map((source) => {
+          const accessed = formatAccessed(source.accessedAt ?? retrievedAt ?? null);
+          const body = (
+            <>
+              <span className="w-5 shrink-0 text-right text-xs font-semibold text-indigo-300">{source.number}</span>
+              {source.domain ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={faviconUrl(source.domain)} alt="" className="mt-0.5 h-4 w-4 shrink-0 rounded-sm opacity-80" />
+              ) : (
+                <span className="mt-0.5 h-4 w-4 shrink-0 rounded-sm bg-white/10" />
+              )}
+              <span className="min-w-0">
+                <span className="block truncate text-sm text-white/85">{source.title}</span>
+                <span className="block text-[11px] text-white/40">
+                  {[source.publisher, source.domain ?? "Invalid link", accessed && `accessed ${accessed}`]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </span>
+              </span>
+            </>
+          );
+          return (
+            <li key={source.number} id={citationAnchor(scope, source.number)} className="scroll-mt-24 rounded-lg target:bg-indigo-500/10">
+              {source.url ? (
+                <a
+                  href={source.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex items-start gap-3 rounded-lg px-2 py-1.5 transition-colors hover:bg-white/5"
+                >
+                  {body}
+                </a>
+              ) : (
+                <div className="flex items-start gap-3 px-2 py-1.5">{body}</div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
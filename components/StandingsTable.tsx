@@ -0,0 +1,156 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import {
+  defaultDirection,
+  sortStandings,
+  ZONE_LABELS,
+  type FormResult,
+  type SortDirection,
+  type StandingRow,
+  type StandingSortKey,
+  type Zone,
+} from "@/lib/standings";
+import { teamInitials, type Team } from "@/lib/teams";
+
+const ZONE_STYLES: Record<Zone, { bar: string; dot: string }> = {
+  champions_league: { bar: "border-l-sky-400", dot: "bg-sky-400" },
+  europa_league: { bar: "border-l-orange-400", dot: "bg-orange-400" },
+  conference_league: { bar: "border-l-emerald-400", dot: "bg-emerald-400" },
+  promotion: { bar: "border-l-teal-300", dot: "bg-teal-300" },
+  playoff: { bar: "border-l-amber-300", dot: "bg-amber-300" },
+  relegation: { bar: "border-l-rose-500", dot: "bg-rose-500" },
+};
+
+const FORM_STYLES: Record<FormResult, string> = {
+  W: "bg-emerald-500/80 text-white",
+  D: "bg-white/20 text-white/80",
+  L: "bg-rose-500/80 text-white",
+};
+
+/** Small crest for table rows: the registry logo, or initials on the club colours. */
+export const RowCrest = ({ team, name }: { team: Team | null; name: string }) =>
+  team?.logo ? (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img src={team.logo} alt="" className="h-5 w-5 shrink-0 object-contain" />
+  ) : (
+    <span
+      className="flex h-5 w-5 shrink-0 items-center justify-center rounded-full bg-white/10 text-[8px] font-bold text-white"
+      style={team ? { background: team.colors.primary, color: team.colors.secondary } : undefined}
+    >
+      {teamInitials(name)}
+    </span>
+  );
+
+const FormGuide = ({ form }: { form: FormResult[] }) => (
+  <span className="flex gap-0.5" aria-label={`Form, oldest first: ${form.join(" ")}`}>
+    {form.map((result, i) => (
+      <span key={i} className={`flex h-4 w-4 items-center justify-center rounded-sm text-[9px] font-bold ${FORM_STYLES[result]}`}>
+        {result}
+      </span>
+    ))}
+  </span>
+);
+
+const COLUMNS: { key: StandingSortKey; label: string; title: string; className?: string }[] = [
+  { key: "position", label: "#", title: "Position" },
+  { key: "name", label: "Club", title: "Club", className: "text-left" },
+  { key: "played", label: "P", title: "Played" },
+  { key: "won", label: "W", title: "Won", className: "hidden sm:table-cell" },
+  { key: "drawn", label: "D", title: "Drawn", className: "hidden sm:table-cell" },
+  { key: "lost", label: "L", title: "Lost", className: "hidden sm:table-cell" },
+  { key: "goalsFor", label: "GF", title: "Goals for", className: "hidden md:table-cell" },
+  { key: "goalsAgainst", label: "GA", title: "Goals against", className: "hidden md:table-cell" },
+  { key: "goalDifference", label: "GD", title: "Goal difference" },
+  { key: "points", label: "Pts", title: "Points" },
+  { key: "form", label: "Form", title: "Last five results", className: "hidden lg:table-cell" },
+];
+
+const cell = (n: number | null) => (n === null ? "–" : n);
+
+/** A league table; column headers sort it, and the left edge of each row shows its zone. */
+export const StandingsTable = ({ rows, caption }: { rows: StandingRow[]; caption?: string }) => {
+  const [sort, setSort] = useState<{ key: StandingSortKey; direction: SortDirection }>({ key: "position", direction: "asc" });
+  const sorted = useMemo(() => sortStandings(rows, sort.key, sort.direction), [rows, sort]);
+  const zones = useMemo(() => [...new Set(rows.map((row) => row.zone).filter((zone): zone is Zone => zone !== null))], [rows]);
+  const showForm = rows.some((row) => row.form.length);
+
+  const toggle = (key: StandingSortKey) =>
+    setSort((current) =>
+      current.key === key
+        ? { key, direction: current.direction === "asc" ? "desc" : "asc" }
+        : { key, direction: defaultDirection(key) },
+    );
+
+  return (
+    <div className="overflow-hidden rounded-2xl border border-white/10 bg-white/5">
+      <table className="w-full text-sm tabular-nums">
+        {caption && <caption className="px-4 pt-4 text-left text-xs font-medium uppercase tracking-wider text-white/50">{caption}</caption>}
+        <thead>
+          <tr className="border-b border-white/10 text-[11px] uppercase tracking-wider text-white/40">
+            {COLUMNS.filter((column) => column.key !== "form" || showForm).map((column) => (
+              <th
+                key={column.key}
+                scope="col"
+                aria-sort={sort.key === column.key ? (sort.direction === "asc" ? "ascending" : "descending") : "none"}
+                className={`px-2 py-2 font-medium first:pl-4 last:pr-4 ${column.className ?? "text-center"}`}
+              >
+                <button
+                  type="button"
+                  title={column.title}
+                  onClick={() => toggle(column.key)}
+                  className={`hover:text-white ${sort.key === column.key ? "text-white" : ""}`}
+                >
+                  {column.label}
+                  {sort.key === column.key && <span className="ml-0.5">{sort.direction === "asc" ? "▲" : "▼"}</span>}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((row) => (
+            <tr
+              key={`${row.position}-${row.name}`}
+              className={`border-b border-l-2 border-b-white/5 last:border-b-0 ${row.zone ? ZONE_STYLES[row.zone].bar : "border-l-transparent"}`}
+              title={row.zone ? ZONE_LABELS[row.zone] : undefined}
+            >
+              <td className="py-2 pl-4 pr-2 text-center text-white/50">{row.position}</td>
+              <td className="px-2 py-2">
+                <span className="flex items-center gap-2">
+                  <RowCrest team={row.team} name={row.name} />
+                  <span className="truncate text-white">{row.team?.name ?? row.name}</span>
+                </span>
+              </td>
+              <td className="px-2 py-2 text-center text-white/70">{cell(row.played)}</td>
+              <td className="hidden px-2 py-2 text-center text-white/70 sm:table-cell">{cell(row.won)}</td>
+              <td className="hidden px-2 py-2 text-center text-white/70 sm:table-cell">{cell(row.drawn)}</td>
+              <td className="hidden px-2 py-2 text-center text-white/70 sm:table-cell">{cell(row.lost)}</td>
+              <td className="hidden px-2 py-2 text-center text-white/70 md:table-cell">{cell(row.goalsFor)}</td>
+              <td className="hidden px-2 py-2 text-center text-white/70 md:table-cell">{cell(row.goalsAgainst)}</td>
+              <td className="px-2 py-2 text-center text-white/70">
+                {row.goalDifference === null ? "–" : row.goalDifference > 0 ? `+${row.goalDifference}` : row.goalDifference}
+              </td>
+              <td className={`px-2 py-2 text-center font-semibold text-white ${showForm ? "" : "pr-4"}`}>{cell(row.points)}</td>
+              {showForm && (
+                <td className="hidden py-2 pl-2 pr-4 lg:table-cell">
+                  <FormGuide form={row.form} />
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {zones.length > 0 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 border-t border-white/10 px-4 py-3 text-[11px] text-white/50">
+          {zones.map((zone) => (
+            <span key={zone} className="flex items-center gap-1.5">
+              <span className={`h-2 w-2 rounded-full ${ZONE_STYLES[zone].dot}`} />
+              {ZONE_LABELS[zone]}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import { hasTeamTactics, type TacticalAnalysis, type TeamTactics } from "@/lib/tactics";
+import { FormationPitch } from "./FormationPitch";
+import { KeyValueTree } from "./KeyValueTree";
+
+const Row = ({ label, value }: { label: string; value?: string }) =>
+  value ? (
+    <div>
+      <p className="text-[10px] font-bold uppercase tracking-wider text-white/40">{label}</p>
+      <p className="text-sm text-white/85">{value}</p>
+    </div>
+  ) : null;
+
+const TeamCard = ({ name, tactics, accent }: { name: string; tactics: TeamTactics; accent: string }) => (
+  <div className="space-y-3 rounded-2xl border border-white/10 bg-white/5 p-5">
+    <div className="flex items-center justify-between">
+      <p className="font-semibold text-white">
+        <span className={`mr-2 inline-block h-2 w-2 rounded-full ${accent}`} />
+        {name}
+      </p>
+      {tactics.formation && (
+        <span className="rounded-full bg-white/10 px-3 py-1 text-xs font-medium text-white/80">{tactics.formation}</span>
+      )}
+    </div>
+    <Row label="Pressing" value={tactics.pressing} />
+    <Row label="Possession" value={tactics.possession} />
+    <Row label="Build-up" value={tactics.buildUp} />
+    <Row label="Defensive shape" value={tactics.defensiveShape} />
+    {tactics.strengths.length > 0 && (
+      <div>
+        <p className="text-[10px] font-bold uppercase tracking-wider text-emerald-400/70">Strengths</p>
+        <ul className="list-disc pl-5 text-sm text-white/80">
+          {tactics.strengths.map((s, i) => <li key={i}>{s}</li>)}
+        </ul>
+      </div>
+    )}
+    {tactics.weaknesses.length > 0 && (
+      <div>
+        <p className="text-[10px] font-bold uppercase tracking-wider text-rose-400/70">Weaknesses</p>
+        <ul className="list-disc pl-5 text-sm text-white/80">
+          {tactics.weaknesses.map((s, i) => <li key={i}>{s}</li>)}
+        </ul>
+      </div>
+    )}
+  </div>
+);
+
+export const TacticalAnalysisPanels = ({
+  analysis,
+  homeTeam,
+  awayTeam,
+}: {
+  analysis: TacticalAnalysis;
+  homeTeam?: string;
+  awayTeam?: string;
+}) => {
+  const showTeams = hasTeamTactics(analysis.home) || hasTeamTactics(analysis.away);
+  const hasExtras = Object.keys(analysis.extras).length > 0;
+
+  return (
+    <div className="space-y-4">
+      <FormationPitch
+        homeFormation={analysis.home.formation}
+        awayFormation={analysis.away.formation}
+        homeTeam={homeTeam}
+        awayTeam={awayTeam}
+      />
+
+      {showTeams && (
+        <div className="grid gap-4 md:grid-cols-2">
+          <TeamCard name={homeTeam || "Home"} tactics={analysis.home} accent="bg-indigo-400" />
+          <TeamCard name={awayTeam || "Away"} tactics={analysis.away} accent="bg-rose-400" />
+        </div>
+      )}
+
+      {analysis.pressing && (
+        <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+          <Row label="Pressing" value={analysis.pressing} />
+        </div>
+      )}
+
+      {analysis.phases.length > 0 && (
+        <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+          <h4 className="mb-3 text-sm font-medium uppercase tracking-wider text-white/60">Possession Phases</h4>
+          <ol className="space-y-3">
+            {analysis.phases.map((phase, i) => (
+              <li key={i} className="flex gap-3 text-sm">
+                <span className="w-16 shrink-0 text-xs text-white/40">{phase.minutes || `#${i + 1}`}</span>
+                <div>
+                  <p className="text-white/90">
+                    {phase.phase || "Phase"}
+                    {phase.team && <span className="ml-2 text-xs text-white/50">{phase.team}</span>}
+                    {phase.possession && <span className="ml-2 text-xs text-indigo-300">{phase.possession}</span>}
+                  </p>
+                  {phase.description && <p className="text-white/60">{phase.description}</p>}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {analysis.battles.length > 0 && (
+        <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+          <h4 className="mb-3 text-sm font-medium uppercase tracking-wider text-white/60">Key Battles</h4>
+          <div className="grid gap-3 md:grid-cols-2">
+            {analysis.battles.map((battle, i) => (
+              <div key={i} className="rounded-xl border border-white/5 bg-black/20 p-4 text-sm">
+                <p className="font-medium text-white">
+                  {battle.homePlayer || "?"} <span className="text-white/30">vs</span> {battle.awayPlayer || "?"}
+                </p>
+                {battle.area && <p className="text-xs text-white/40">{battle.area}</p>}
+                {battle.description && <p className="mt-2 text-white/70">{battle.description}</p>}
+                {battle.winner && <p className="mt-2 text-xs text-emerald-400">Edge: {battle.winner}</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {hasExtras && (
+        <div className="rounded-2xl border border-white/10 bg-white/5 p-5">
+          <KeyValueTree value={analysis.extras} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { exportFileName } from "@/lib/report";
+import { traceToJson, turnTrace, type TraceStage } from "@/lib/trace";
+import type { ConversationTurn } from "@/lib/types";
+
+const formatMs = (ms: number) => (ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(ms < 10_000 ? 2 : 1)}s`);
+
+const barColor = (status: string) => {
+  const value = status.toLowerCase();
+  if (value === "complete") return "bg-emerald-400/70";
+  if (value === "error" || value === "failed") return "bg-rose-400/70";
+  if (value === "processing") return "bg-amber-400/70";
+  return "bg-indigo-400/70";
+};
+
+const downloadJson = (text: string, fileName: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: "application/json;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const StageRow = ({ stage, duration, origin }: { stage: TraceStage; duration: number | null; origin?: number }) => {
+  const [open, setOpen] = useState(false);
+  const timed = duration !== null && stage.start !== null && stage.end !== null;
+  const left = timed && duration ? (stage.start! / duration) * 100 : 0;
+  const width = timed && duration ? Math.max(((stage.end! - stage.start!) / duration) * 100, 0.75) : 0;
+
+  return (
+    <li>
+      <button
+        type="button"
+        onClick={() => setOpen((value) => !value)}
+        aria-expanded={open}
+        className="grid w-full grid-cols-[8rem_1fr_4rem] items-center gap-3 rounded-lg px-2 py-1.5 text-left hover:bg-white/5"
+      >
+        <span className="truncate text-[11px] font-semibold uppercase tracking-wider text-white/60">
+          <span className="mr-1 text-white/30">{open ? "▾" : "▸"}</span>
+          {stage.stage}
+        </span>
+        <span className="relative h-2 rounded-full bg-white/5">
+          {timed && (
+            <span
+              className={`absolute inset-y-0 rounded-full ${barColor(stage.status)}`}
+              style={{ left: `${left}%`, width: `${Math.min(width, 100 - left)}%` }}
+            />
+          )}
+        </span>
+        <span className="text-right text-[11px] tabular-nums text-white/50">
+          {timed ? formatMs(stage.end! - stage.start!) : `${stage.events.length}×`}
+        </span>
+      </button>
+      {open && (
+        <ol className="mb-2 ml-[8.75rem] space-y-1 border-l border-white/10 pl-3">
+          {stage.events.map((event, i) => (
+            <li key={i} className="flex gap-3 text-xs">
+              <span className="w-14 shrink-0 text-right tabular-nums text-white/30">
+                {typeof event.at === "number" && origin !== undefined ? `+${formatMs(event.at - origin)}` : "—"}
+              </span>
+              <span className="w-20 shrink-0 text-white/40">{event.status}</span>
+              <span className="min-w-0 break-words text-white/80">{event.message}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </li>
+  );
+};
+
+/**
+ * Collapsible inspector for a turn's thinking events: a waterfall of pipeline
+ * stages with their timings, the raw messages under each stage, and a JSON
+ * download to attach to bug reports.
+ */
+export const ThinkingTrace = ({ turn }: { turn: ConversationTurn }) => {
+  const [open, setOpen] = useState(false);
+  const trace = useMemo(() => turnTrace(turn), [turn]);
+
+  if (!turn.thinking.length) return null;
+
+  // Offsets in the raw message list are measured from the same origin as the bars.
+  const origin = trace.duration === null ? undefined : turn.startedAt ?? turn.thinking[0].at;
+
+  return (
+    <div className="rounded-2xl border border-white/10 bg-white/[0.03] text-white/80">
+      <div className="flex items-center justify-between gap-3 px-4 py-2.5">
+        <button
+          type="button"
+          onClick={() => setOpen((value) => !value)}
+          aria-expanded={open}
+          className="flex items-center gap-2 text-xs font-medium text-white/60 hover:text-white"
+        >
+          <span>{open ? "▾" : "▸"}</span>
+          Thinking trace
+          <span className="text-white/30">
+            {trace.stages.length} stages · {turn.thinking.length} events
+            {trace.duration !== null ? ` · ${formatMs(trace.duration)}` : ""}
+          </span>
+        </button>
+        {open && (
+          <button
+            type="button"
+            onClick={() => {
+              const name = turn.response ? exportFileName(turn.query, turn.response) : "analysis";
+              downloadJson(traceToJson(turn), `${name}-trace.json`);
+            }}
+            className="rounded-full border border-white/15 px-3 py-1 text-[11px] font-medium text-white/70 transition-colors hover:border-white/30 hover:text-white"
+          >
+            Download JSON
+          </button>
+        )}
+      </div>
+      {open && (
+        <div className="border-t border-white/5 px-2 py-3">
+          {trace.duration === null && (
+            <p className="px-2 pb-2 text-[11px] text-white/40">This trace was saved without timings.</p>
+          )}
+          <ul>
+            {trace.stages.map((stage) => (
+              <StageRow key={stage.stage} stage={stage} duration={trace.duration} origin={origin} />
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
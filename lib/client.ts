@@ -0,0 +1,376 @@
+import { isLiveMatch, LIVE_POLL_MS, mergeLiveResponse } from "./live";
+import { toRequestFilters, type QueryOptions } from "./queryOptions";
+import { apiResponseSchema, deltaPayloadSchema, thinkingPayloadSchema } from "./schemas";
+import { readEventStream, SSEDecoder } from "./sse";
+import type { AnalysisDelta, ApiResponse, ThinkingEvent, ThreadContextTurn } from "./types";
+
+export type ApiClientErrorCode =
+  | "http"
+  | "network"
+  | "no_body"
+  | "malformed_frame"
+  | "invalid_payload"
+  | "backend";
+
+/** A failure talking to the analysis backend, with enough context to report it. */
+export class ApiClientError extends Error {
+  readonly code: ApiClientErrorCode;
+  readonly status?: number;
+  readonly issues: string[];
+  readonly raw?: string;
+  /** Machine-readable cause reported by the proxy, e.g. `backend_memory`. */
+  readonly reason?: string;
+  readonly requestId?: string;
+  readonly retryAfter?: number;
+
+  constructor(
+    code: ApiClientErrorCode,
+    message: string,
+    details: {
+      status?: number;
+      issues?: string[];
+      raw?: string;
+      reason?: string;
+      requestId?: string;
+      retryAfter?: number;
+    } = {},
+  ) {
+    super(message);
+    this.name = "ApiClientError";
+    this.code = code;
+    this.status = details.status;
+    this.issues = details.issues ?? [];
+    this.raw = details.raw;
+    this.reason = details.reason;
+    this.requestId = details.requestId;
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+export type StreamEvent =
+  | { type: "thinking"; event: ThinkingEvent }
+  | { type: "delta"; delta: AnalysisDelta }
+  /** `issues` lists invalid parts of the result that were left out. */
+  | { type: "result"; response: ApiResponse; issues: string[] }
+  | { type: "error"; error: ApiClientError }
+  | { type: "reconnecting"; attempt: number; delay: number }
+  | { type: "done" };
+
+export type StreamQueryOptions = Partial<QueryOptions> & {
+  threadId?: string;
+  history?: ThreadContextTurn[];
+  signal?: AbortSignal;
+  baseUrl?: string;
+  /** How many times a dropped stream is resumed before giving up. */
+  maxReconnects?: number;
+  /** Refresh of an in-progress match: asks the backend for current data rather than a cached answer. */
+  live?: boolean;
+};
+
+const DEFAULT_RECONNECT_DELAY = 1000;
+const DEFAULT_MAX_RECONNECTS = 3;
+
+/** Same-origin proxy (`app/api/query/stream`); the backend URL stays on the server. */
+export const apiBaseUrl = () => "/api";
+
+const normalizeResponse = (data: ApiResponse): ApiResponse => ({
+  ...data,
+  summary: data.summary ?? data.answer ?? null,
+  highlights: data.highlights ?? [],
+  sources: data.sources ?? [],
+});
+
+// Raw frames can be clipped for error reports; full payloads can be very large.
+const clip = (raw: string) => (raw.length > 500 ? `${raw.slice(0, 500)}…` : raw);
+
+/**
+ * Maps one SSE message to a typed event, or null for frames the UI does not use.
+ * A named SSE event (`event: thinking`) stands in for a missing `type` field.
+ */
+export const parseFrame = (data: string, eventName = "message"): StreamEvent | null => {
+  if (data === "[DONE]") return { type: "done" };
+  if (!data.trim()) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return {
+      type: "error",
+      error: new ApiClientError("malformed_frame", "Received a stream frame that is not valid JSON.", { raw: clip(data) }),
+    };
+  }
+  if (typeof parsed !== "object" || parsed === null) {
+    return {
+      type: "error",
+      error: new ApiClientError("malformed_frame", "Received a stream frame that is not a JSON object.", { raw: clip(data) }),
+    };
+  }
+
+  const frame = parsed as { type?: unknown; data?: unknown; stage?: unknown; message?: unknown };
+  if (frame.type === undefined && eventName !== "message") frame.type = eventName;
+  const inner = typeof frame.data === "object" && frame.data !== null ? (frame.data as Record<string, unknown>) : {};
+
+  if (frame.type === "result") {
+    const result = apiResponseSchema(frame.data, "data");
+    if (!result.ok) {
+      return {
+        type: "error",
+        error: new ApiClientError("invalid_payload", "The analysis result did not match the expected format.", {
+          issues: result.issues,
+          raw: clip(data),
+        }),
+      };
+    }
+    const response = normalizeResponse(result.value);
+    return {
+      type: "result",
+      response:
+        response.success === false
+          ? { ...response, error: response.error || "The API returned an unsuccessful response." }
+          : response,
+      issues: result.issues ?? [],
+    };
+  }
+
+  if (frame.type === "delta") {
+    const result = deltaPayloadSchema(frame.data, "data");
+    if (!result.ok) {
+      return {
+        type: "error",
+        error: new ApiClientError("invalid_payload", "A streamed text fragment did not match the expected format.", {
+          issues: result.issues,
+          raw: clip(data),
+        }),
+      };
+    }
+    return { type: "delta", delta: result.value };
+  }
+
+  if (frame.type === "error") {
+    const message = frame.message ?? inner.message ?? inner.error;
+    return {
+      type: "error",
+      error: new ApiClientError("backend", typeof message === "string" ? message : "The analysis service reported an error.", {
+        raw: clip(data),
+        reason: typeof inner.code === "string" ? inner.code : undefined,
+        requestId: typeof inner.request_id === "string" ? inner.request_id : undefined,
+        status: typeof inner.status === "number" ? inner.status : undefined,
+      }),
+    };
+  }
+
+  if (frame.type === "thinking" || frame.stage || inner.stage) {
+    const source = frame.stage ? frame : inner;
+    const result = thinkingPayloadSchema(source, frame.stage ? "" : "data");
+    if (!result.ok) {
+      return {
+        type: "error",
+        error: new ApiClientError("invalid_payload", "A progress update did not match the expected format.", {
+          issues: result.issues,
+          raw: clip(data),
+        }),
+      };
+    }
+    return {
+      type: "thinking",
+      event: {
+        stage: result.value.stage || "thinking",
+        message: result.value.message || "",
+        status: result.value.status || "info",
+      },
+    };
+  }
+
+  return null;
+};
+
+const isAbort = (err: unknown) => (err as Error)?.name === "AbortError";
+
+type ErrorBody = { code?: string; message?: string; request_id?: string; retry_after?: number };
+
+const readErrorBody = async (response: Response): Promise<ErrorBody> => {
+  try {
+    const body = await response.json();
+    return typeof body?.error === "object" && body.error !== null ? body.error : {};
+  } catch {
+    return {};
+  }
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+/**
+ * Streams an analysis for `query`. Recoverable problems (a malformed frame, a payload
+ * that fails validation) are yielded as `error` events and the stream continues.
+ * When the connection drops before a result arrives, the request is re-sent with
+ * `Last-Event-ID` so the backend can resume, honouring any `retry` delay it asked for.
+ * Transport failures that cannot be resumed yield one `error` event and end the
+ * stream. Aborting ends the stream quietly. Otherwise it always finishes with `done`.
+ */
+export async function* streamQuery(query: string, options: StreamQueryOptions = {}): AsyncGenerator<StreamEvent> {
+  const url = `${options.baseUrl ?? apiBaseUrl()}/query/stream`;
+  const maxReconnects = options.maxReconnects ?? DEFAULT_MAX_RECONNECTS;
+  const body = JSON.stringify({
+    query,
+    ...toRequestFilters(options),
+    thread_id: options.threadId,
+    history: options.history ?? [],
+    ...(options.live ? { live: true } : {}),
+  });
+  const decoder = new SSEDecoder();
+  let attempt = 0;
+
+  while (true) {
+    const headers: Record<string, string> = { "Content-Type": "application/json", Accept: "text/event-stream" };
+    if (decoder.lastEventId) headers["Last-Event-ID"] = decoder.lastEventId;
+
+    let response: Response | null = null;
+    let dropped: ApiClientError | null = null;
+    try {
+      response = await fetch(url, { method: "POST", headers, body, signal: options.signal });
+    } catch (err) {
+      if (isAbort(err)) return;
+      dropped = new ApiClientError("network", "Could not reach the analysis service.");
+    }
+
+    if (response && !response.ok) {
+      const detail = await readErrorBody(response);
+      yield {
+        type: "error",
+        error: new ApiClientError("http", detail.message || `The analysis service responded with HTTP ${response.status}.`, {
+          status: response.status,
+          reason: detail.code,
+          requestId: detail.request_id ?? response.headers.get("x-request-id") ?? undefined,
+          retryAfter: detail.retry_after ?? (Number(response.headers.get("retry-after")) || undefined),
+        }),
+      };
+      yield { type: "done" };
+      return;
+    }
+
+    if (response && !response.body) {
+      yield { type: "error", error: new ApiClientError("no_body", "The analysis service returned an empty response.") };
+      yield { type: "done" };
+      return;
+    }
+
+    let finished = false;
+    if (response?.body) {
+      try {
+        for await (const message of readEventStream(response.body, decoder)) {
+          const event = parseFrame(message.data, message.event);
+          if (!event) continue;
+          if (event.type === "done") {
+            finished = true;
+            break;
+          }
+          if (event.type === "result") finished = true;
+          // Errors the proxy reports are final, except an interrupted stream, which can resume.
+          if (event.type === "error" && event.error.code === "backend" && event.error.reason !== "stream_interrupted") {
+            finished = true;
+          }
+          // A progress update arriving means the connection is healthy again.
+          if (event.type === "thinking" || event.type === "delta") attempt = 0;
+          yield event;
+        }
+      } catch (err) {
+        if (isAbort(err)) return;
+      }
+      // A stream that closes before the backend said it was finished counts as dropped.
+      if (!finished) {
+        dropped = new ApiClientError("network", "The connection to the analysis service was lost.", {
+          reason: "stream_interrupted",
+        });
+      }
+    }
+
+    if (finished || !dropped) break;
+    if (options.signal?.aborted) return;
+    if (attempt >= maxReconnects) {
+      yield { type: "error", error: dropped };
+      break;
+    }
+
+    attempt += 1;
+    const delay = decoder.retry ?? DEFAULT_RECONNECT_DELAY * attempt;
+    yield { type: "reconnecting", attempt, delay };
+    await wait(delay, options.signal);
+    if (options.signal?.aborted) return;
+  }
+  yield { type: "done" };
+}
+
+/**
+ * Follows an in-progress match: re-asks `query` every `intervalMs` and yields the
+ * merged response after each successful refresh. Failed refreshes are skipped; the loop ends
+ * when the match is no longer live or `signal` aborts.
+ */
+export async function* pollLiveMatch(
+  query: string,
+  initial: ApiResponse,
+  options: StreamQueryOptions & { intervalMs?: number } = {},
+): AsyncGenerator<ApiResponse> {
+  const { intervalMs = LIVE_POLL_MS, ...streamOptions } = options;
+  let current = initial;
+  while (isLiveMatch(current.match_metadata)) {
+    await wait(intervalMs, options.signal);
+    if (options.signal?.aborted) return;
+
+    let refreshed: ApiResponse | null = null;
+    for await (const event of streamQuery(query, { ...streamOptions, live: true })) {
+      if (event.type === "result") refreshed = event.response;
+    }
+    if (options.signal?.aborted) return;
+    if (!refreshed) continue;
+
+    const merged = mergeLiveResponse(current, refreshed);
+    if (merged === current) continue;
+    current = merged;
+    yield current;
+  }
+}
+
+const sharedAnalyses = new WeakMap<ApiResponse, Promise<{ id: string; url: string }>>();
+
+/**
+ * Saves an analysis on the server and returns its permalink path (`/analysis/[id]`).
+ * Repeated calls for the same response (share, then export) reuse the first link.
+ */
+export const shareAnalysis = (query: string, response: ApiResponse) => {
+  let pending = sharedAnalyses.get(response);
+  if (!pending) {
+    pending = createSharedAnalysis(query, response);
+    pending.catch(() => sharedAnalyses.delete(response));
+    sharedAnalyses.set(response, pending);
+  }
+  return pending;
+};
+
+const createSharedAnalysis = async (query: string, response: ApiResponse) => {
+  let res: Response;
+  try {
+    res = await fetch("/api/analyses", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ query, response }),
+    });
+  } catch {
+    throw new ApiClientError("network", "Could not reach the server to create a link.");
+  }
+  if (!res.ok) {
+    const detail = await readErrorBody(res);
+    throw new ApiClientError("http", detail.message || `Sharing failed with HTTP ${res.status}.`, {
+      status: res.status,
+      reason: detail.code,
+    });
+  }
+  return (await res.json()) as { id: string; url: string };
+};
@@ -0,0 +1,140 @@
+import { buildMomentumSeries, toTimelineMoments, type TeamSide, type TimelineMoment } from "./match";
+import { parseScore } from "./score";
+import { matchHeadline } from "./share";
+import { parseTacticalAnalysis, type TacticalAnalysis, type TeamTactics } from "./tactics";
+import { findTeam, normalizeTeam } from "./teams";
+import type { ApiResponse } from "./types";
+
+/** One match in a comparison, with the derived data the columns and the diff share. */
+export type ComparedMatch = {
+  response: ApiResponse;
+  moments: TimelineMoment[];
+  momentum: TimelineMoment[];
+  tactics: TacticalAnalysis | null;
+};
+
+export type DiffTopic = "result" | "momentum" | "tactics";
+
+export type DiffNote = {
+  topic: DiffTopic;
+  text: string;
+  /** False for "nothing changed" notes, so the UI can de-emphasise them. */
+  changed: boolean;
+};
+
+export const prepareComparedMatch = (response: ApiResponse): ComparedMatch => {
+  const moments = toTimelineMoments(response.match_metadata?.key_moments);
+  const momentum = response.game_analysis?.momentum_analysis;
+  return {
+    response,
+    moments,
+    momentum: momentum?.length ? toTimelineMoments(momentum) : moments,
+    tactics: parseTacticalAnalysis(response.game_analysis?.tactical_analysis),
+  };
+};
+
+const teamKey = (name?: string) => (name ? findTeam(name)?.id ?? normalizeTeam(name) : "");
+
+const teamName = (match: ComparedMatch, side: TeamSide) =>
+  (side === "home" ? match.response.match_metadata?.home_team : match.response.match_metadata?.away_team) ||
+  (side === "home" ? "Home side" : "Away side");
+
+/**
+ * Pairs each side of the first match with the same club in the second, so the
+ * two legs of a tie (where home and away swap) are compared team by team. Falls
+ * back to home-vs-home when the matches share no clubs.
+ */
+export const alignSides = (left: ComparedMatch, right: ComparedMatch): [TeamSide, TeamSide][] => {
+  const l = left.response.match_metadata;
+  const r = right.response.match_metadata;
+  const [lh, la, rh, ra] = [l?.home_team, l?.away_team, r?.home_team, r?.away_team].map(teamKey);
+  if (lh && la && lh === ra && la === rh) return [["home", "away"], ["away", "home"]];
+  return [["home", "home"], ["away", "away"]];
+};
+
+/** Goals for each side after play ended, ignoring any shoot-out; null when unreadable. */
+const sideGoals = (score?: string | null): Record<TeamSide, number> | null => parseScore(score)?.final ?? null;
+
+/** Net momentum from one side's perspective: the final value of the home-positive series. */
+const netMomentum = (match: ComparedMatch, side: TeamSide) => {
+  const series = buildMomentumSeries(match.momentum);
+  const final = series[series.length - 1].value;
+  return side === "home" ? final : -final;
+};
+
+const signed = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+const TACTIC_FIELDS: [keyof TeamTactics, string][] = [
+  ["formation", "formation"],
+  ["pressing", "pressing"],
+  ["possession", "possession"],
+  ["buildUp", "build-up"],
+  ["defensiveShape", "defensive shape"],
+];
+
+const resultNotes = (left: ComparedMatch, right: ComparedMatch): DiffNote[] => {
+  const before = matchHeadline(left.response.match_metadata);
+  const after = matchHeadline(right.response.match_metadata);
+  if (!before || !after) return [];
+  return [{ topic: "result", text: `${before} → ${after}`, changed: before !== after }];
+};
+
+const momentumNotes = (left: ComparedMatch, right: ComparedMatch, pairs: [TeamSide, TeamSide][]): DiffNote[] => {
+  if (!left.momentum.length && !right.momentum.length) return [];
+  return pairs.map(([leftSide, rightSide]) => {
+    const name = teamName(left, leftSide);
+    const before = netMomentum(left, leftSide);
+    const after = netMomentum(right, rightSide);
+    if (before === after) {
+      return { topic: "momentum", text: `${name}: momentum unchanged (${signed(before)})`, changed: false };
+    }
+    const direction = after > before ? "swung towards them" : "swung against them";
+    return { topic: "momentum", text: `${name}: momentum ${signed(before)} → ${signed(after)}, ${direction}`, changed: true };
+  });
+};
+
+const tacticsNotes = (left: ComparedMatch, right: ComparedMatch, pairs: [TeamSide, TeamSide][]): DiffNote[] => {
+  if (!left.tactics || !right.tactics) return [];
+  const notes: DiffNote[] = [];
+  for (const [leftSide, rightSide] of pairs) {
+    const name = teamName(left, leftSide);
+    const before = left.tactics[leftSide];
+    const after = right.tactics[rightSide];
+    const changes = TACTIC_FIELDS.flatMap(([field, label]) => {
+      const a = before[field] as string | undefined;
+      const b = after[field] as string | undefined;
+      if (!a || !b || a.trim().toLowerCase() === b.trim().toLowerCase()) return [];
+      return [`${label} ${a} → ${b}`];
+    });
+    notes.push(
+      changes.length
+        ? { topic: "tactics", text: `${name}: ${changes.join("; ")}`, changed: true }
+        : { topic: "tactics", text: `${name}: no tactical change reported`, changed: false },
+    );
+  }
+  if (left.tactics.pressing && right.tactics.pressing && left.tactics.pressing !== right.tactics.pressing) {
+    notes.push({ topic: "tactics", text: `Pressing: ${left.tactics.pressing} → ${right.tactics.pressing}`, changed: true });
+  }
+  return notes;
+};
+
+/** What changed from the first match to the second: result, momentum per club and tactics per club. */
+export const compareMatches = (left: ComparedMatch, right: ComparedMatch): DiffNote[] => {
+  const pairs = alignSides(left, right);
+  return [...resultNotes(left, right), ...momentumNotes(left, right, pairs), ...tacticsNotes(left, right, pairs)];
+};
+
+/** Aggregate score over two legs when both matches involve the same two clubs. */
+export const aggregateScore = (left: ComparedMatch, right: ComparedMatch) => {
+  const pairs = alignSides(left, right);
+  if (pairs[0][1] !== "away") return null;
+  const first = sideGoals(left.response.match_metadata?.score);
+  const second = sideGoals(right.response.match_metadata?.score);
+  if (!first || !second) return null;
+  return {
+    home: teamName(left, "home"),
+    away: teamName(left, "away"),
+    homeGoals: first.home + second.away,
+    awayGoals: first.away + second.home,
+  };
+};
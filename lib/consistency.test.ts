@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { checkConsistency, type ConsistencyCode } from "./consistency";
+import type { ApiKeyMoment, ApiMatchMetadata } from "./types";
+
+const goal = (minute: string, team: string, description: string): ApiKeyMoment => ({ minute, event: "GOAL", team, description });
+
+const match = (score: string, key_moments: ApiKeyMoment[]): ApiMatchMetadata => ({
+  home_team: "Arsenal",
+  away_team: "Chelsea",
+  score,
+  key_moments,
+});
+
+describe("checkConsistency", () => {
+  const cases: [string, ApiMatchMetadata | null, ConsistencyCode[]][] = [
+    ["no metadata", null, []],
+    ["goals that add up", match("2-1", [goal("12", "home", "Saka scores"), goal("40", "away", "Palmer scores"), goal("77", "home", "Rice scores")]), []],
+    ["no goals among the moments", match("3-0", [{ minute: "30", event: "YELLOW_CARD", team: "away", description: "Caicedo booked" }]), []],
+    ["a goal missing for one side", match("2-1", [goal("12", "home", "Saka scores"), goal("40", "away", "Palmer scores")]), ["score_mismatch"]],
+    ["goals for the wrong side", match("1-0", [goal("12", "away", "Palmer scores")]), ["score_mismatch", "score_mismatch"]],
+    ["goals without a side, by total", match("1-1", [goal("12", "", "Saka scores"), goal("40", "", "Palmer scores")]), []],
+    ["too many goals without a side", match("1-0", [goal("12", "", "Saka scores"), goal("40", "", "Palmer scores")]), ["score_mismatch"]],
+    ["goals after extra time, by the final score", match("2-1 aet", [goal("10", "home", "Saka scores"), goal("60", "away", "Palmer scores"), goal("110", "home", "Havertz scores")]), []],
+    ["shoot-out kicks", match("1-1 (4-3 pens)", [goal("30", "home", "Saka scores"), goal("70", "away", "Palmer scores"), goal("121", "home", "Rice scores")]), ["minute_out_of_range"]],
+    ["a disallowed goal", match("1-0", [goal("12", "home", "Saka scores"), goal("50", "home", "Havertz goal ruled out for offside")]), []],
+    ["stoppage time in extra time", match("1-0", [goal("120+2", "home", "Saka scores")]), []],
+    ["an impossible minute", match("0-0", [{ minute: "135", event: "YELLOW_CARD", team: "home", description: "Rice booked" }]), ["minute_out_of_range"]],
+    ["a club name for the team", match("0-0", [{ minute: "20", event: "YELLOW_CARD", team: "Arsenal", description: "Rice booked" }]), ["unknown_team"]],
+  ];
+
+  it.each(cases)("checks %s", (_, meta, codes) => {
+    expect(checkConsistency(meta).map((issue) => issue.code)).toEqual(codes);
+  });
+
+  it("points at the moment at fault", () => {
+    const [issue] = checkConsistency(match("0-0", [{ minute: "130", event: "SUBSTITUTION", team: "home", description: "Nwaneri on" }]));
+    expect(issue.moment).toBeTruthy();
+  });
+});
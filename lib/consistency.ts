@@ -0,0 +1,88 @@
+import { momentKey } from "./live";
+import { teamSide, type TeamSide } from "./match";
+import { goalEvents, parseScore } from "./score";
+import type { ApiMatchMetadata } from "./types";
+
+export type ConsistencyCode = "score_mismatch" | "unknown_team" | "minute_out_of_range";
+
+/** A contradiction in the match data, shown as a warning and kept with the saved answer. */
+export type ConsistencyIssue = {
+  code: ConsistencyCode;
+  message: string;
+  /** `momentKey` of the key moment at fault, so the timeline can mark it. */
+  moment?: string;
+};
+
+// Play never goes beyond extra time; "120+2" is stoppage time and still fine.
+const LAST_MINUTE = 120;
+
+const baseMinute = (minute?: string) => {
+  const match = minute?.match(/\d{1,3}/);
+  return match ? Number(match[0]) : null;
+};
+
+const sideName = (meta: ApiMatchMetadata, side: TeamSide) =>
+  (side === "home" ? meta.home_team : meta.away_team) || (side === "home" ? "the home side" : "the away side");
+
+/**
+ * Cross-checks `match_metadata` the way a reader would: the score against the goals
+ * in `key_moments`, every moment's `team` against "home"/"away", and minutes against
+ * the length of a match. The backend is a language model, so these do happen.
+ */
+export const checkConsistency = (meta?: ApiMatchMetadata | null): ConsistencyIssue[] => {
+  if (!meta) return [];
+  const issues: ConsistencyIssue[] = [];
+  const moments = meta.key_moments ?? [];
+
+  for (const moment of moments) {
+    const minute = baseMinute(moment.minute);
+    if (minute !== null && minute > LAST_MINUTE) {
+      issues.push({
+        code: "minute_out_of_range",
+        message: `An event is placed at ${moment.minute}', after the ${LAST_MINUTE} minutes a match can last.`,
+        moment: momentKey(moment),
+      });
+    }
+    if (moment.team?.trim() && !teamSide(moment.team)) {
+      issues.push({
+        code: "unknown_team",
+        message: `The ${moment.minute ? `${moment.minute}' ` : ""}event is attributed to "${moment.team.trim()}" instead of home or away.`,
+        moment: momentKey(moment),
+      });
+    }
+  }
+
+  // Only compared when the moments list goals at all: many answers name just a few
+  // moments. Goals past 120' are shoot-out kicks, which the score does not count.
+  const score = parseScore(meta.score);
+  const goals = goalEvents(moments, meta).filter((goal) => (baseMinute(goal.minute) ?? 0) <= LAST_MINUTE);
+  if (score && goals.length) {
+    if (goals.some((goal) => !goal.side)) {
+      const total = score.final.home + score.final.away;
+      if (goals.length !== total) {
+        issues.push({
+          code: "score_mismatch",
+          message: `The score has ${total} goal${total === 1 ? "" : "s"} but the key moments list ${goals.length}.`,
+        });
+      }
+    } else {
+      for (const side of ["home", "away"] as const) {
+        const counted = goals.filter((goal) => goal.side === side).length;
+        if (counted !== score.final[side]) {
+          issues.push({
+            code: "score_mismatch",
+            message: `The score gives ${sideName(meta, side)} ${score.final[side]} but the key moments list ${counted} goal${counted === 1 ? "" : "s"} for them.`,
+          });
+        }
+      }
+    }
+  }
+
+  return issues;
+};
+
+export const CONSISTENCY_LABELS: Record<ConsistencyCode, string> = {
+  score_mismatch: "Score and goals disagree",
+  unknown_team: "Unknown team",
+  minute_out_of_range: "Impossible minute",
+};
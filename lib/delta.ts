@@ -0,0 +1,23 @@
+import type { AnalysisDelta, ApiResponse } from "./types";
+
+/**
+ * Folds one `delta` frame into the answer being streamed. Text is appended to its
+ * field; partial `match_metadata` is merged so the score banner can fill in early.
+ */
+export const applyDelta = (draft: ApiResponse | null, delta: AnalysisDelta): ApiResponse => {
+  const next: ApiResponse = { ...draft };
+  if (delta.match_metadata) {
+    next.match_metadata = { ...draft?.match_metadata, ...delta.match_metadata };
+  }
+  if (delta.text) {
+    if (delta.field === "deep_analysis") {
+      next.game_analysis = {
+        ...draft?.game_analysis,
+        deep_analysis: (draft?.game_analysis?.deep_analysis ?? "") + delta.text,
+      };
+    } else {
+      next.summary = (draft?.summary ?? "") + delta.text;
+    }
+  }
+  return next;
+};
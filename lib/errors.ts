@@ -0,0 +1,203 @@
+import type { ApiClientError } from "./client";
+import { expectsSingleMatch } from "./intents";
+import type { ApiResponse } from "./types";
+
+export type ErrorCategory =
+  | "network"
+  | "http"
+  | "stream_interrupted"
+  | "backend_unsuccessful"
+  | "match_not_found"
+  | "rate_limited"
+  | "payload_invalid";
+
+/**
+ * What the UI offers for a failure: an automatic retry with growing delays, a
+ * prompt to rephrase the question, a countdown before retrying is allowed, or
+ * a plain retry button.
+ */
+export type RecoveryAction = "backoff" | "rephrase" | "countdown" | "retry";
+
+/** A failed query, classified so the UI can explain it and offer the right way out. */
+export type AnalysisError = {
+  category: ErrorCategory;
+  title: string;
+  message: string;
+  recovery: RecoveryAction;
+  /** Seconds to wait before retrying (`countdown`). */
+  retryAfter?: number;
+  /** Ways to reword the question (`rephrase`). */
+  suggestions?: string[];
+  status?: number;
+  requestId?: string;
+};
+
+/** Automatic retries for transient failures before only the manual button is left. */
+export const MAX_AUTO_RETRIES = 3;
+
+const RETRY_BASE_MS = 8000;
+const RETRY_MAX_MS = 60_000;
+const DEFAULT_RETRY_AFTER = 30;
+
+/** Delay before automatic retry number `attempt` (0-based): 8s, 16s, 32s, capped at a minute. */
+export const retryDelayMs = (attempt: number) => Math.min(RETRY_BASE_MS * 2 ** attempt, RETRY_MAX_MS);
+
+/** Backend wording for "could not work out which match you meant". */
+export const MATCH_NOT_FOUND_PATTERN =
+  /\b(could ?n[o']t|unable to|failed to) (identify|find|determine|resolve)\b|\bno (matching )?match(es)? (was |were )?found\b|\bmatch not found\b/i;
+
+/** Backend wording for an analysis that ran out of memory. */
+export const MEMORY_PATTERN = /\bmemory\b|\bOOM\b/i;
+
+const SEASON_PATTERN = /\b(19|20)\d{2}\b|\b\d{2}\/\d{2}\b|\b(yesterday|today|last (night|week|weekend|season))\b/i;
+const FIXTURE_PATTERN = /\b(vs?\.?|versus|against)\b|\s[-–]\s/i;
+
+/** Hints for a question the backend could not pin to a single match. */
+export const rephraseSuggestions = (query: string) => {
+  const suggestions: string[] = [];
+  if (!FIXTURE_PATTERN.test(query)) suggestions.push("Name both teams, e.g. “Arsenal vs Chelsea”.");
+  if (!SEASON_PATTERN.test(query)) suggestions.push("Add the season or date, e.g. “2024/25” or “last weekend”.");
+  suggestions.push("Use full club names rather than nicknames or abbreviations.");
+  suggestions.push("Mention the competition if the teams met more than once.");
+  return suggestions;
+};
+
+const matchNotFound = (query: string, detail?: string | null, requestId?: string): AnalysisError => ({
+  category: "match_not_found",
+  title: "We couldn't tell which match you meant",
+  message: detail || "No match fitted the question.",
+  recovery: "rephrase",
+  suggestions: rephraseSuggestions(query),
+  requestId,
+});
+
+const unsuccessful = (
+  query: string,
+  detail?: string | null,
+  requestId?: string,
+  outOfMemory = Boolean(detail && MEMORY_PATTERN.test(detail)),
+): AnalysisError => {
+  if (detail && MATCH_NOT_FOUND_PATTERN.test(detail)) return matchNotFound(query, detail, requestId);
+  if (outOfMemory) {
+    return {
+      category: "backend_unsuccessful",
+      title: "The analysis ran out of memory",
+      message: "This question needed more work than the service could handle in one go.",
+      recovery: "rephrase",
+      suggestions: [
+        "Ask about a single match rather than a season or several games.",
+        "Ask for one thing at a time, e.g. only the tactics or only the key moments.",
+      ],
+      requestId,
+    };
+  }
+  return {
+    category: "backend_unsuccessful",
+    title: "The analysis could not be completed",
+    message: detail || "The analysis service gave up on this request.",
+    recovery: "retry",
+    requestId,
+  };
+};
+
+const rateLimited = (retryAfter?: number, requestId?: string): AnalysisError => ({
+  category: "rate_limited",
+  title: "Too many requests",
+  message: "You've asked a lot of questions in a short time.",
+  recovery: "countdown",
+  retryAfter: retryAfter && retryAfter > 0 ? Math.ceil(retryAfter) : DEFAULT_RETRY_AFTER,
+  requestId,
+});
+
+const fromClientError = (error: ApiClientError, query: string): AnalysisError => {
+  const { requestId, status } = error;
+  switch (error.reason) {
+    case "rate_limited":
+      return rateLimited(error.retryAfter, requestId);
+    case "match_not_found":
+      return matchNotFound(query, error.message, requestId);
+    case "backend_memory":
+      return unsuccessful(query, error.message, requestId, true);
+    case "backend_unsuccessful":
+      return unsuccessful(query, error.message, requestId);
+    case "stream_interrupted":
+      return {
+        category: "stream_interrupted",
+        title: "The answer was cut off",
+        message: "The connection dropped before the analysis finished and could not be resumed.",
+        recovery: "backoff",
+        requestId,
+      };
+    case "backend_unreachable":
+    case "backend_timeout":
+      return {
+        category: "network",
+        title: "The analysis service is not responding",
+        message: error.message,
+        recovery: "backoff",
+        requestId,
+      };
+  }
+
+  switch (error.code) {
+    case "network":
+      return {
+        category: "network",
+        title: "Can't reach the server",
+        message: "Check your internet connection. We'll keep trying.",
+        recovery: "backoff",
+      };
+    case "malformed_frame":
+    case "invalid_payload":
+      return {
+        category: "payload_invalid",
+        title: "The answer came back garbled",
+        message: "Part of the response was not in the expected format, so it could not be shown.",
+        recovery: "retry",
+        requestId,
+      };
+    default:
+      if (status === 429) return rateLimited(error.retryAfter, requestId);
+      return {
+        category: "http",
+        title: status ? `The server returned an error (HTTP ${status})` : "The server returned an error",
+        message: error.message,
+        // Client errors will fail the same way again; server errors are often temporary.
+        recovery: status && status < 500 ? "rephrase" : "backoff",
+        suggestions: status && status < 500 ? ["Shorten the question and try again."] : undefined,
+        status,
+        requestId,
+      };
+  }
+};
+
+/**
+ * Works out why a query produced no usable answer. An unsuccessful `response`
+ * wins over transport errors seen on the way; a stream that simply ended without
+ * a result counts as interrupted.
+ */
+export const classifyFailure = (query: string, error: ApiClientError | null, response?: ApiResponse | null): AnalysisError => {
+  if (response?.success === false) return unsuccessful(query, response.error);
+  if (error) return fromClientError(error, query);
+  return {
+    category: "stream_interrupted",
+    title: "No answer came back",
+    message: "The analysis finished without sending a result.",
+    recovery: "backoff",
+  };
+};
+
+/**
+ * A successful answer to a match question that names no match at all is treated
+ * as "match not found". Standings, player, other and unrecognised questions need not name one.
+ */
+export const missingMatchError = (query: string, response: ApiResponse): AnalysisError | null =>
+  !expectsSingleMatch(response.intent) || response.match_metadata?.score || response.match_metadata?.home_team
+    ? null
+    : matchNotFound(query, null);
+
+/** Shown when the user re-submits during the local cooldown. */
+export const cooldownError = (remainingMs: number): AnalysisError => ({
+  ...rateLimited(remainingMs / 1000),
+  message: "Please wait a few seconds before asking again.",
+});
@@ -0,0 +1,165 @@
+import type { ApiHighlight, ApiResponse } from "./types";
+import { displayHost, safeHttpUrl } from "./url";
+
+export type VideoProvider = "youtube" | "vimeo" | "dailymotion" | "streamable" | "file";
+
+/** How a highlight can be played: in an iframe, in a `<video>` element, or only as a link. */
+export type ResolvedVideo = {
+  provider: VideoProvider | null;
+  /** iframe `src` for hosted players; null when the URL cannot be embedded. */
+  embedUrl: string | null;
+  /** Direct media URL playable with `<video>`. */
+  fileUrl: string | null;
+  thumbnail: string | null;
+  /** The original URL, safe to link to. */
+  watchUrl: string;
+  host: string;
+};
+
+export type HighlightTrust = "official_club" | "broadcaster" | "unverified";
+
+export type HighlightItem = {
+  title: string;
+  url: string | null;
+  video: ResolvedVideo | null;
+  trust: HighlightTrust;
+  confidence: number | null;
+  duration: string | null;
+};
+
+export const TRUST_LABELS: Record<HighlightTrust, string> = {
+  official_club: "Official club",
+  broadcaster: "Official broadcaster",
+  unverified: "Unverified",
+};
+
+const TRUST_ORDER: Record<HighlightTrust, number> = { official_club: 0, broadcaster: 1, unverified: 2 };
+
+const VIDEO_FILE = /\.(mp4|webm|ogv|mov)$/i;
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+const youtubeId = (url: URL) => {
+  const host = url.hostname.replace(/^(www|m|music)\./, "");
+  if (host === "youtu.be") return url.pathname.slice(1).split("/")[0];
+  if (host !== "youtube.com" && host !== "youtube-nocookie.com") return null;
+  if (url.pathname === "/watch") return url.searchParams.get("v");
+  const [, kind, id] = url.pathname.split("/");
+  return ["embed", "shorts", "live", "v"].includes(kind) ? id : null;
+};
+
+/** "1m30s", "90s" or "90" → 90. */
+const startSeconds = (value: string | null) => {
+  if (!value) return null;
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s?)?$/);
+  if (!match) return null;
+  const seconds = Number(match[1] ?? 0) * 3600 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0);
+  return seconds > 0 ? seconds : null;
+};
+
+/**
+ * Works out how to play a highlight URL. Known providers get their embeddable
+ * player URL; direct video files play natively; anything else is link-only, so
+ * arbitrary pages are never loaded into an iframe.
+ */
+export const resolveVideo = (url?: string | null): ResolvedVideo | null => {
+  const parsed = safeHttpUrl(url);
+  if (!parsed) return null;
+  const host = displayHost(parsed);
+  const base: ResolvedVideo = {
+    provider: null,
+    embedUrl: null,
+    fileUrl: null,
+    thumbnail: null,
+    watchUrl: parsed.toString(),
+    host,
+  };
+
+  const ytId = youtubeId(parsed);
+  if (ytId && YOUTUBE_ID.test(ytId)) {
+    const start = startSeconds(parsed.searchParams.get("t") ?? parsed.searchParams.get("start"));
+    return {
+      ...base,
+      provider: "youtube",
+      embedUrl: `https://www.youtube-nocookie.com/embed/${ytId}${start ? `?start=${start}` : ""}`,
+      thumbnail: `https://i.ytimg.com/vi/${ytId}/hqdefault.jpg`,
+    };
+  }
+
+  if (host === "vimeo.com" || host === "player.vimeo.com") {
+    const id = parsed.pathname.match(/\/(?:video\/)?(\d+)/)?.[1];
+    if (id) return { ...base, provider: "vimeo", embedUrl: `https://player.vimeo.com/video/${id}` };
+  }
+
+  if (host === "dailymotion.com" || host === "dai.ly") {
+    const id = host === "dai.ly" ? parsed.pathname.slice(1) : parsed.pathname.match(/\/(?:embed\/)?video\/([a-z0-9]+)/i)?.[1];
+    if (id) {
+      return {
+        ...base,
+        provider: "dailymotion",
+        embedUrl: `https://www.dailymotion.com/embed/video/${id}`,
+        thumbnail: `https://www.dailymotion.com/thumbnail/video/${id}`,
+      };
+    }
+  }
+
+  if (host === "streamable.com") {
+    const id = parsed.pathname.match(/^\/(?:[eo]\/)?([a-z0-9]+)$/i)?.[1];
+    if (id) return { ...base, provider: "streamable", embedUrl: `https://streamable.com/e/${id}` };
+  }
+
+  if (parsed.protocol === "https:" && VIDEO_FILE.test(parsed.pathname)) {
+    return { ...base, provider: "file", fileUrl: parsed.toString() };
+  }
+
+  return base;
+};
+
+export const isPlayable = (video: ResolvedVideo | null) => Boolean(video?.embedUrl || video?.fileUrl);
+
+/** "PT9M48S", "588" (seconds) or "9:48" → "9:48"; null when unreadable. */
+export const formatDuration = (duration?: string | null) => {
+  const text = duration?.trim();
+  if (!text) return null;
+  if (/^\d{1,2}(:\d{2}){1,2}$/.test(text)) return text;
+
+  let seconds: number | null = null;
+  const iso = text.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?$/i);
+  if (iso) seconds = Number(iso[1] ?? 0) * 3600 + Number(iso[2] ?? 0) * 60 + Math.round(Number(iso[3] ?? 0));
+  else if (/^\d+(\.\d+)?$/.test(text)) seconds = Math.round(Number(text));
+  if (seconds === null) return text;
+
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
+
+const trustOf = (highlight: ApiHighlight): HighlightTrust =>
+  highlight.is_official_club ? "official_club" : highlight.is_nbc_sports ? "broadcaster" : "unverified";
+
+/**
+ * Normalises `highlights` (objects or bare strings) and ranks them: official club
+ * channels first, then official broadcasters, then by confidence. Playable videos
+ * win ties so the gallery opens on something that can be watched.
+ */
+export const rankHighlights = (highlights: ApiResponse["highlights"]): HighlightItem[] =>
+  (highlights ?? [])
+    .map((entry): HighlightItem => {
+      const highlight: ApiHighlight =
+        typeof entry === "string" ? (safeHttpUrl(entry) ? { url: entry } : { title: entry }) : entry;
+      const video = resolveVideo(highlight.url);
+      return {
+        title: highlight.title?.trim() || (video ? `Highlights on ${video.host}` : "Highlights"),
+        url: video?.watchUrl ?? null,
+        video,
+        trust: trustOf(highlight),
+        confidence: typeof highlight.confidence === "number" ? highlight.confidence : null,
+        duration: formatDuration(highlight.duration),
+      };
+    })
+    .sort(
+      (a, b) =>
+        TRUST_ORDER[a.trust] - TRUST_ORDER[b.trust] ||
+        (b.confidence ?? -1) - (a.confidence ?? -1) ||
+        Number(isPlayable(b.video)) - Number(isPlayable(a.video)),
+    );
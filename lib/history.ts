@@ -0,0 +1,118 @@
+import { checkConsistency, type ConsistencyIssue } from "./consistency";
+import type { ApiResponse, ConversationTurn, ThinkingEvent } from "./types";
+
+/** A finished turn persisted to IndexedDB so it can be re-opened without hitting the backend. */
+export type HistoryEntry = {
+  id: string;
+  threadId: string;
+  query: string;
+  response: ApiResponse;
+  thinking: ThinkingEvent[];
+  /** When the query was sent; missing on entries saved before traces were timed. */
+  startedAt?: number;
+  createdAt: number;
+  pinned: boolean;
+  /** Contradictions in the match data, checked on every save, for reporting bad answers. */
+  issues?: ConsistencyIssue[];
+};
+
+const DB_NAME = "soccer-mind";
+const DB_VERSION = 1;
+const STORE = "history";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("threadId", "threadId");
+        store.createIndex("createdAt", "createdAt");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const byRecency = (a: HistoryEntry, b: HistoryEntry) => {
+  if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+  return b.createdAt - a.createdAt;
+};
+
+/** All entries, pinned first and then newest first. */
+export const listHistory = async () => {
+  const entries = await run<HistoryEntry[]>("readonly", (store) => store.getAll());
+  return entries.sort(byRecency);
+};
+
+/** Entries of one conversation in the order they were asked. */
+export const loadThread = async (threadId: string) => {
+  const entries = await run<HistoryEntry[]>("readonly", (store) =>
+    store.index("threadId").getAll(threadId),
+  );
+  return entries.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const saveHistoryEntry = (entry: HistoryEntry) =>
+  run("readwrite", (store) =>
+    store.put({ ...entry, issues: checkConsistency(entry.response.match_metadata) }),
+  );
+
+export const deleteHistoryEntry = (id: string) =>
+  run("readwrite", (store) => store.delete(id));
+
+export const setHistoryPinned = async (id: string, pinned: boolean) => {
+  const entry = await run<HistoryEntry | undefined>("readonly", (store) => store.get(id));
+  if (!entry) return;
+  await saveHistoryEntry({ ...entry, pinned });
+};
+
+/** Replaces the stored answer, e.g. with the latest state of a live match. */
+export const updateHistoryResponse = async (id: string, response: ApiResponse) => {
+  const entry = await run<HistoryEntry | undefined>("readonly", (store) => store.get(id));
+  if (!entry) return;
+  await saveHistoryEntry({ ...entry, response });
+};
+
+export const searchHistory = (entries: HistoryEntry[], term: string) => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter((entry) => {
+    const meta = entry.response.match_metadata;
+    return [entry.query, entry.response.summary, meta?.home_team, meta?.away_team, meta?.competition]
+      .some((field) => field?.toLowerCase().includes(needle));
+  });
+};
+
+export const entryToTurn = (entry: HistoryEntry): ConversationTurn => ({
+  id: entry.id,
+  query: entry.query,
+  response: entry.response,
+  thinking: entry.thinking,
+  error: null,
+  status: "complete",
+  startedAt: entry.startedAt,
+  receivedAt: entry.createdAt,
+});
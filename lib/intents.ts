@@ -0,0 +1,57 @@
+/** What a question was about, as far as choosing a result layout goes. */
+export type Intent =
+  | "match_result"
+  | "player_stats"
+  | "standings"
+  | "transfer_news"
+  | "head_to_head"
+  | "general_question";
+
+export const INTENT_LABELS: Record<Intent, string> = {
+  match_result: "Match",
+  player_stats: "Player",
+  standings: "Standings",
+  transfer_news: "Transfer news",
+  head_to_head: "Head to head",
+  general_question: "Answer",
+};
+
+// The backend's classifier has used several names for the same intent over time.
+const INTENT_ALIASES: Record<Intent, string[]> = {
+  match_result: ["match result", "match", "match analysis", "match report", "result", "score", "live match", "live"],
+  player_stats: ["player stats", "player", "player performance", "player analysis", "player profile", "stats"],
+  standings: ["standings", "table", "league table", "league standings", "season", "season summary", "fixtures", "results"],
+  transfer_news: ["transfer news", "transfer", "transfers", "transfer rumour", "transfer rumor", "news"],
+  head_to_head: ["head to head", "h2h", "head2head", "rivalry", "record between"],
+  general_question: ["general question", "general", "question", "other", "faq", "trivia"],
+};
+
+const ALIASES = new Map(
+  (Object.entries(INTENT_ALIASES) as [Intent, string[]][]).flatMap(([intent, aliases]) =>
+    aliases.map((alias) => [alias, intent] as const),
+  ),
+);
+
+/** Maps the backend's `intent` ("match_result", "H2H", "league-table"...) to a known one; null when unrecognised. */
+export const resolveIntent = (intent?: string | null): Intent | null =>
+  ALIASES.get((intent ?? "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim()) ?? null;
+
+/**
+ * Whether the answer is expected to be about one match. Only a recognised match
+ * intent is: an unknown or missing one says nothing about what was asked.
+ */
+export const expectsSingleMatch = (intent?: string | null) => resolveIntent(intent) === "match_result";
+
+export type KeyStat = { label: string; value: string };
+
+// "- **Goals:** 27", "* Assists – 9", "**xG**: 21.4"; the value must start with a number.
+const STAT_LINE = /^\s*[-*•]?\s*\**([A-Za-z][\w '/%.()-]{0,30}?)\**\s*[:–—-]\s*\**\s*([\d.,]+%?(?:\s*\/\s*[\d.,]+)?(?:\s+[A-Za-z%]+)?)\**\s*$/;
+
+/** Numeric "label: value" lines in a markdown answer, shown as stat tiles for player questions. */
+export const keyStats = (markdown?: string | null, limit = 8): KeyStat[] =>
+  (markdown ?? "")
+    .split("\n")
+    .map((line) => line.match(STAT_LINE))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map((match) => ({ label: match[1].trim(), value: match[2].trim() }))
+    .slice(0, limit);
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { mergeLiveResponse } from "./live";
+import type { ApiKeyMoment, ApiResponse } from "./types";
+
+const refresh = (minute: string, key_moments: ApiKeyMoment[]): ApiResponse => ({
+  success: true,
+  match_metadata: { home_team: "Arsenal", away_team: "Chelsea", status: "live", minute, score: "1-0", key_moments },
+});
+
+describe("mergeLiveResponse", () => {
+  it("keeps one copy of an event whose description is reworded", () => {
+    const first = refresh("30", [
+      { minute: "12", event: "GOAL", team: "home", description: "Saka curls it into the far corner" },
+      { minute: "25", event: "YELLOW_CARD", team: "away", player: "Caicedo", description: "Caicedo booked for a late tackle" },
+    ]);
+    const second = refresh("31", [
+      { minute: "12", event: "GOAL", team: "home", description: "Saka opens the scoring with a curler" },
+      { minute: "25", event: "YELLOW_CARD", team: "away", player: "Caicedo", description: "Booking for Caicedo" },
+    ]);
+    const third = refresh("32", [
+      { minute: "12", event: "GOAL", team: "home", description: "Saka's superb finish" },
+      { minute: "25", event: "YELLOW_CARD", team: "away", player: "Caicedo", description: "Caicedo is cautioned" },
+      { minute: "31", event: "GOAL", team: "away", description: "Palmer levels" },
+    ]);
+
+    const merged = [second, third].reduce(mergeLiveResponse, first);
+    expect(merged.match_metadata?.key_moments?.map((moment) => moment.description)).toEqual([
+      "Saka's superb finish",
+      "Caicedo is cautioned",
+      "Palmer levels",
+    ]);
+  });
+
+  it("keeps events at the same minute by different players apart", () => {
+    const merged = mergeLiveResponse(
+      refresh("50", [{ minute: "45", event: "YELLOW_CARD", team: "home", player: "Rice" }]),
+      refresh("51", [{ minute: "45", event: "YELLOW_CARD", team: "home", player: "Saliba" }]),
+    );
+    expect(merged.match_metadata?.key_moments).toHaveLength(2);
+  });
+
+  it("ignores a refresh of another fixture", () => {
+    const current = refresh("30", []);
+    const other: ApiResponse = { success: true, match_metadata: { home_team: "Liverpool", away_team: "Everton", key_moments: [] } };
+    expect(mergeLiveResponse(current, other)).toBe(current);
+  });
+});
@@ -0,0 +1,95 @@
+import { eventType, parseMinute } from "./match";
+import { leadingPlayer } from "./score";
+import { findTeam, normalizeTeam } from "./teams";
+import type { ApiKeyMoment, ApiMatchMetadata, ApiResponse } from "./types";
+
+/** Where a match stands: not started, one of the in-play phases, or finished. */
+export type MatchPhase = "NS" | "1H" | "HT" | "2H" | "ET" | "PEN" | "FT";
+
+export const PHASE_LABELS: Record<MatchPhase, string> = {
+  NS: "Not started",
+  "1H": "1st half",
+  HT: "Half time",
+  "2H": "2nd half",
+  ET: "Extra time",
+  PEN: "Penalties",
+  FT: "Full time",
+};
+
+/** How often an in-progress match is refreshed. */
+export const LIVE_POLL_MS = 30_000;
+
+const LIVE_PHASES = new Set<MatchPhase>(["1H", "HT", "2H", "ET", "PEN"]);
+
+const STATUS_ALIASES: [RegExp, MatchPhase][] = [
+  [/^(ns|not started|scheduled|upcoming|pre[- ]?match|tbd)$/, "NS"],
+  [/^(ft|full[- ]?time|finished|ended|final|aet|after extra time|ap|after penalties)$/, "FT"],
+  [/^(ht|half[- ]?time|break)$/, "HT"],
+  [/^(1h|first half|1st half)$/, "1H"],
+  [/^(2h|second half|2nd half)$/, "2H"],
+  [/^(et|extra[- ]?time|1et|2et|bt)$/, "ET"],
+  [/^(pen|pens|penalties|penalty shoot-?out|shoot-?out|p)$/, "PEN"],
+];
+
+const GENERIC_LIVE = /^(live|in[- ]?play|in[- ]?progress|playing|ongoing)$/;
+
+const phaseFromMinute = (minute: number): MatchPhase => (minute <= 45 ? "1H" : minute <= 90 ? "2H" : "ET");
+
+/**
+ * Reads the match phase from `status` ("HT", "second half", "live"...) and
+ * `minute`. A bare "live" is placed by the minute. Returns null when the backend
+ * says nothing about the state, which the UI treats as a finished match.
+ */
+export const matchPhase = (meta?: ApiMatchMetadata | null): MatchPhase | null => {
+  const status = meta?.status?.trim().toLowerCase() ?? "";
+  const minute = parseMinute(meta?.minute);
+  for (const [pattern, phase] of STATUS_ALIASES) {
+    if (pattern.test(status)) return phase;
+  }
+  if (GENERIC_LIVE.test(status) || (!status && minute !== null)) {
+    return minute !== null ? phaseFromMinute(minute) : "1H";
+  }
+  return null;
+};
+
+export const isLivePhase = (phase: MatchPhase | null) => phase !== null && LIVE_PHASES.has(phase);
+
+export const isLiveMatch = (meta?: ApiMatchMetadata | null) => isLivePhase(matchPhase(meta));
+
+/**
+ * Identity of an event across refreshes, so new goals and cards can be told apart
+ * from known ones. The description is left out: the backend rewords it on every
+ * refresh. Without a `player` field, the player it opens with stands in.
+ */
+export const momentKey = (moment: ApiKeyMoment) =>
+  [
+    parseMinute(moment.minute) ?? moment.minute,
+    eventType(moment.event),
+    moment.team,
+    moment.player || leadingPlayer(moment.description?.trim() || ""),
+  ]
+    .map((part) => String(part ?? "").trim().toLowerCase())
+    .join("|");
+
+const teamKey = (name?: string) => (name ? findTeam(name)?.id ?? normalizeTeam(name) : "");
+
+const sameFixture = (a?: ApiMatchMetadata | null, b?: ApiMatchMetadata | null) =>
+  teamKey(a?.home_team) === teamKey(b?.home_team) && teamKey(a?.away_team) === teamKey(b?.away_team);
+
+/**
+ * Applies a refreshed answer to the match being followed. A refresh that failed
+ * or resolved to a different fixture is ignored; events the refresh no longer
+ * mentions are kept, so the timeline only ever grows while the match runs.
+ */
+export const mergeLiveResponse = (current: ApiResponse, next: ApiResponse): ApiResponse => {
+  if (next.success === false || !next.match_metadata || !sameFixture(current.match_metadata, next.match_metadata)) {
+    return current;
+  }
+  const known = new Map<string, ApiKeyMoment>();
+  for (const moment of [...(current.match_metadata?.key_moments ?? []), ...(next.match_metadata.key_moments ?? [])]) {
+    known.set(momentKey(moment), moment);
+  }
+  const minuteOf = (moment: ApiKeyMoment) => parseMinute(moment.minute) ?? Infinity;
+  const moments = [...known.values()].sort((a, b) => minuteOf(a) - minuteOf(b));
+  return { ...next, match_metadata: { ...next.match_metadata, key_moments: moments } };
+};
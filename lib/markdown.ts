@@ -0,0 +1,42 @@
+// Opening markers with nothing after them yet: "**", " _", "`", "[".
+const DANGLING_MARKERS = /(?:^|\s)(?:\*{1,3}|_{1,3}|`+|~~|\[)\s*$/;
+
+// "[text](partial-url" or "[text" at the end: show the text without the pending link.
+const PARTIAL_LINK = /!?\[([^\]\n]*)\]\([^)\n]*$|!?\[([^\]\n]*)$/;
+
+const countUnescaped = (text: string, marker: RegExp) =>
+  (text.replace(/\\./g, "").match(marker) ?? []).length;
+
+/**
+ * Makes markdown that is still being streamed safe to render on every update:
+ * an open code fence is closed, a half-written link or citation shows as plain
+ * text, and unbalanced bold/italic/code markers on the last paragraph are closed
+ * so the rest of the answer does not flip between styles as tokens arrive.
+ */
+export const stabilizeMarkdown = (text: string) => {
+  if ((text.match(/```/g) ?? []).length % 2) return `${text}\n\`\`\``;
+
+  const cut = text.lastIndexOf("\n\n");
+  const head = cut === -1 ? "" : text.slice(0, cut + 2);
+  let tail = cut === -1 ? text : text.slice(cut + 2);
+
+  // A citation still being written ("[1", "[2,") is dropped rather than shown as a number.
+  tail = tail.replace(PARTIAL_LINK, (_, closed?: string, open?: string) =>
+    open !== undefined && /^\^?[\d,\s–-]*$/.test(open) ? "" : closed ?? open ?? "",
+  );
+  tail = tail.replace(DANGLING_MARKERS, (match) => (match.startsWith(" ") ? " " : "")).trimEnd();
+
+  const closers: string[] = [];
+  if (countUnescaped(tail.replace(/```/g, ""), /`/g) % 2) closers.push("`");
+  else {
+    const withoutCode = tail.replace(/`[^`]*`/g, "");
+    if (countUnescaped(withoutCode, /\*\*/g) % 2) closers.push("**");
+    // Single "*" emphasis, ignoring "**" pairs and list bullets at the start of a line.
+    const singles = withoutCode.replace(/\*\*/g, "").replace(/^\s*\*\s/gm, "");
+    if (countUnescaped(singles, /\*/g) % 2) closers.unshift("*");
+    if (countUnescaped(withoutCode, /__/g) % 2) closers.push("__");
+    if (countUnescaped(withoutCode, /~~/g) % 2) closers.push("~~");
+  }
+
+  return head + tail + closers.join("");
+};
@@ -0,0 +1,93 @@
+import type { ApiKeyMoment } from "./types";
+
+export type TeamSide = "home" | "away";
+
+export type TimelineMoment = ApiKeyMoment & {
+  minuteValue: number;
+  side: TeamSide | null;
+};
+
+export type MomentumPoint = {
+  minute: number;
+  value: number;
+  moment: TimelineMoment | null;
+};
+
+export const getEventIcon = (event?: string) => {
+  const e = event?.toLowerCase() || "";
+  if (e.includes("goal")) return "⚽";
+  if (e.includes("red_card") || e.includes("red card")) return "🟥";
+  if (e.includes("yellow_card") || e.includes("yellow card")) return "🟨";
+  if (e.includes("substitution") || e.includes("sub")) return "🔄";
+  if (e.includes("whistle")) return "🏁";
+  return "•";
+};
+
+/** "yellow card", "Yellow-Card" → "YELLOW_CARD": the form event types are compared in. */
+export const eventType = (event?: string) => (event || "").trim().toUpperCase().replace(/[\s-]+/g, "_");
+
+/** "45+2'" → 47, "67" → 67; null when no minute can be read. */
+export const parseMinute = (minute?: string | number | null) => {
+  if (typeof minute === "number") return Number.isFinite(minute) ? minute : null;
+  const match = minute?.match(/(\d{1,3})(?:\s*\+\s*(\d{1,2}))?/);
+  if (!match) return null;
+  return Number(match[1]) + (match[2] ? Number(match[2]) : 0);
+};
+
+export const teamSide = (team?: string): TeamSide | null => {
+  const t = team?.trim().toLowerCase();
+  if (t === "home") return "home";
+  if (t === "away") return "away";
+  return null;
+};
+
+export const toTimelineMoments = (moments: ApiKeyMoment[] = []): TimelineMoment[] =>
+  moments
+    .map((moment) => ({
+      ...moment,
+      minuteValue: parseMinute(moment.minute) ?? -1,
+      side: teamSide(moment.team),
+    }))
+    .filter((moment) => moment.minuteValue >= 0)
+    .sort((a, b) => a.minuteValue - b.minuteValue);
+
+const STRONG_IMPACT = /\b(high|major|huge|decisive|significant|game[- ]?changing|critical)\b/;
+const MODERATE_IMPACT = /\b(medium|moderate|notable)\b/;
+const WEAK_IMPACT = /\b(low|minor|slight|small)\b/;
+const NEGATIVE_IMPACT = /\b(negative|lost|loses|against|setback)\b/;
+
+/**
+ * Turns a free-form `momentum_impact` ("high", "+0.4", "moderate negative") into a
+ * signed weight from the perspective of the team that produced the moment.
+ */
+export const momentumWeight = (impact?: string) => {
+  const text = impact?.trim().toLowerCase() || "";
+  if (!text) return 0;
+  const numeric = text.match(/^[+-]?\d+(?:\.\d+)?/);
+  if (numeric) return Number(numeric[0]);
+  const sign = NEGATIVE_IMPACT.test(text) ? -1 : 1;
+  if (STRONG_IMPACT.test(text)) return 3 * sign;
+  if (MODERATE_IMPACT.test(text)) return 2 * sign;
+  if (WEAK_IMPACT.test(text)) return 1 * sign;
+  return sign;
+};
+
+/** Cumulative momentum where positive values favour the home side. */
+export const buildMomentumSeries = (moments: TimelineMoment[]): MomentumPoint[] => {
+  let value = 0;
+  const points: MomentumPoint[] = [{ minute: 0, value: 0, moment: null }];
+  for (const moment of moments) {
+    if (!moment.side) continue;
+    const weight = momentumWeight(moment.momentum_impact);
+    if (!weight) continue;
+    value += moment.side === "home" ? weight : -weight;
+    points.push({ minute: moment.minuteValue, value, moment });
+  }
+  return points;
+};
+
+/** Length of the timeline axis: regulation time, extended when events run past it. */
+export const timelineLength = (moments: TimelineMoment[]) => {
+  const last = moments.reduce((max, moment) => Math.max(max, moment.minuteValue), 0);
+  return last <= 90 ? 90 : Math.max(last, 95);
+};
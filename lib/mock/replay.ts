@@ -0,0 +1,169 @@
+import { formatEvent } from "../sse";
+import type { ApiResponse } from "../types";
+import { findMockSession } from "./sessions";
+
+export type MockFailure = "none" | "http" | "unsuccessful" | "not_found" | "memory" | "drop";
+
+export type MockOptions = {
+  /** Average pause between frames; each pause varies by ±30%. */
+  delayMs: number;
+  failure: MockFailure;
+  /** Chance (0–1) that the configured failure happens on a given request. */
+  failureRate: number;
+  /** Inject a non-JSON frame and a frame with wrongly typed fields. */
+  malformed: boolean;
+  /** Stream `summary` and `deep_analysis` as `delta` frames before the result. */
+  deltas: boolean;
+};
+
+const FAILURES: MockFailure[] = ["none", "http", "unsuccessful", "not_found", "memory", "drop"];
+
+const toFailure = (value?: string | null): MockFailure | undefined =>
+  FAILURES.find((failure) => failure === value);
+
+const toRate = (value?: string | null) => {
+  const rate = Number(value);
+  return value && Number.isFinite(rate) ? Math.min(1, Math.max(0, rate)) : undefined;
+};
+
+const toDelay = (value?: string | null) => {
+  const delay = Number(value);
+  return value && Number.isFinite(delay) && delay >= 0 ? delay : undefined;
+};
+
+export const mockOptionsFromEnv = (): MockOptions => ({
+  delayMs: toDelay(process.env.ANALYSIS_MOCK_DELAY_MS) ?? 600,
+  failure: toFailure(process.env.ANALYSIS_MOCK_FAILURE) ?? "none",
+  failureRate: toRate(process.env.ANALYSIS_MOCK_FAILURE_RATE) ?? 1,
+  malformed: process.env.ANALYSIS_MOCK_MALFORMED === "1",
+  deltas: process.env.ANALYSIS_MOCK_DELTAS !== "0",
+});
+
+/** Query-string overrides (`?delay=0&failure=drop&rate=0.5&malformed=1&deltas=0`) for one-off scenarios. */
+export const mockOptionsFromParams = (params: URLSearchParams, base: MockOptions): MockOptions => ({
+  delayMs: toDelay(params.get("delay")) ?? base.delayMs,
+  failure: toFailure(params.get("failure")) ?? base.failure,
+  failureRate: toRate(params.get("rate")) ?? base.failureRate,
+  malformed: params.has("malformed") ? params.get("malformed") !== "0" : base.malformed,
+  deltas: params.has("deltas") ? params.get("deltas") !== "0" : base.deltas,
+});
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal?.aborted) return resolve();
+    const timer = setTimeout(resolve, ms * (0.7 + Math.random() * 0.6));
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+
+// Text deltas are much quicker than progress updates, like tokens from a model.
+const DELTA_PAUSE_RATIO = 1 / 12;
+
+/** Splits markdown into small word groups, keeping whitespace so the pieces rejoin exactly. */
+const toChunks = (text: string, wordsPerChunk = 3) => {
+  const words = text.match(/\s*\S+/g) ?? [];
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += wordsPerChunk) chunks.push(words.slice(i, i + wordsPerChunk).join(""));
+  const trailing = text.match(/\s+$/)?.[0];
+  if (trailing && chunks.length) chunks[chunks.length - 1] += trailing;
+  return chunks;
+};
+
+/**
+ * `delta` frames for a result: teams and competition first so the banner fills in,
+ * then the summary and deep analysis a few words at a time.
+ */
+const deltaFrames = (result: ApiResponse): string[] => {
+  const frames: string[] = [];
+  const meta = result.match_metadata;
+  if (meta?.home_team && meta.away_team) {
+    const { home_team, away_team, competition, match_date } = meta;
+    frames.push(JSON.stringify({ type: "delta", data: { match_metadata: { home_team, away_team, competition, match_date } } }));
+  }
+  for (const [field, text] of [["summary", result.summary], ["deep_analysis", result.game_analysis?.deep_analysis]] as const) {
+    for (const chunk of text ? toChunks(text) : []) {
+      frames.push(JSON.stringify({ type: "delta", data: { field, text: chunk } }));
+    }
+  }
+  return frames;
+};
+
+const failedResult = (failure: MockFailure, result: ApiResponse): ApiResponse => {
+  if (failure === "memory") {
+    return { ...result, success: false, error: "Worker exceeded memory limit while analysing the match." };
+  }
+  if (failure === "not_found") {
+    return { ...result, success: false, error: "Could not identify a specific match for this query." };
+  }
+  return { ...result, success: false, error: "The analysis pipeline stopped before producing an answer." };
+};
+
+/**
+ * Replays a recorded session as the Python backend would send it. Frames carry
+ * sequential ids so `Last-Event-ID` resumes after the last delivered frame; a
+ * `drop` failure only affects the first connection, letting the resume succeed.
+ */
+export const replayMockSession = ({
+  query,
+  lastEventId,
+  options,
+  signal,
+}: {
+  query: string;
+  lastEventId?: string | null;
+  options: MockOptions;
+  signal?: AbortSignal;
+}): Response => {
+  const failure = Math.random() < options.failureRate ? options.failure : "none";
+  if (failure === "http") {
+    return Response.json({ detail: "Mock backend failure" }, { status: 500 });
+  }
+
+  const session = findMockSession(query);
+  const frames: string[] = session.thinking.map((event) => JSON.stringify({ type: "thinking", data: event }));
+  if (options.malformed) {
+    frames.splice(2, 0, '{"type": "thinking", "data": {"stage": "search", "mess');
+    frames.splice(4, 0, JSON.stringify({ type: "thinking", data: { stage: 42, message: ["not", "a", "string"] } }));
+  }
+  const result = failure === "unsuccessful" || failure === "not_found" || failure === "memory" ? failedResult(failure, session.result) : session.result;
+  const deltas = options.deltas && result.success !== false ? deltaFrames(result) : [];
+  const firstDelta = frames.length;
+  frames.push(...deltas, JSON.stringify({ type: "result", data: result }), "[DONE]");
+  const pauseFor = (idx: number) =>
+    idx >= firstDelta && idx < firstDelta + deltas.length ? options.delayMs * DELTA_PAUSE_RATIO : options.delayMs;
+
+  const resumeFrom = Number(lastEventId) || 0;
+  const dropAt = failure === "drop" && !lastEventId ? Math.ceil(frames.length / 2) : Infinity;
+  const encoder = new TextEncoder();
+
+  // Set when the client cancels the stream; enqueueing or closing after that throws.
+  let cancelled = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      controller.enqueue(encoder.encode(`retry: ${Math.max(500, options.delayMs)}\n\n`));
+      for (let idx = resumeFrom; idx < frames.length; idx++) {
+        await sleep(pauseFor(idx), signal);
+        if (cancelled || signal?.aborted || idx >= dropAt) break;
+        controller.enqueue(encoder.encode(formatEvent({ id: String(idx + 1), data: frames[idx] })));
+      }
+      if (cancelled) return;
+      try {
+        controller.close();
+      } catch {
+        // already closed because the client went away
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+    },
+  });
+};
@@ -0,0 +1,394 @@
+import type { ApiFixture, ApiKeyMoment, ApiResponse, ApiStandingRow, ThinkingEvent } from "../types";
+
+/** One recorded `/query/stream` exchange: progress updates followed by the final result. */
+export type MockSession = {
+  id: string;
+  /** Lower-case words; the session whose keywords best match the query is replayed. */
+  keywords: string[];
+  thinking: ThinkingEvent[];
+  result: ApiResponse;
+};
+
+const pipeline = (subject: string): ThinkingEvent[] => [
+  { stage: "intent", message: `Understanding the question about ${subject}`, status: "processing" },
+  { stage: "intent", message: "Intent classified", status: "complete" },
+  { stage: "search", message: "Searching match reports and official sources", status: "processing" },
+  { stage: "search", message: "Found 6 relevant sources", status: "complete" },
+  { stage: "analysis", message: "Reconstructing key moments and momentum", status: "processing" },
+  { stage: "analysis", message: "Tactical analysis ready", status: "complete" },
+  { stage: "highlights", message: "Looking for official highlights", status: "processing" },
+  { stage: "highlights", message: "Highlights located", status: "complete" },
+];
+
+const standing = (
+  position: number,
+  team: string,
+  [won, drawn, lost]: [number, number, number],
+  [goalsFor, goalsAgainst]: [number, number],
+  form: string,
+  zone?: string,
+): ApiStandingRow => ({
+  position,
+  team,
+  played: won + drawn + lost,
+  won,
+  drawn,
+  lost,
+  goals_for: goalsFor,
+  goals_against: goalsAgainst,
+  goal_difference: goalsFor - goalsAgainst,
+  points: won * 3 + drawn,
+  form,
+  zone,
+});
+
+const PL_2425_TABLE: ApiStandingRow[] = [
+  standing(1, "Liverpool", [25, 9, 4], [86, 41], "WLDLD", "champions_league"),
+  standing(2, "Arsenal", [20, 14, 4], [69, 34], "LDWLW", "champions_league"),
+  standing(3, "Manchester City", [21, 8, 9], [72, 44], "WWDWW", "champions_league"),
+  standing(4, "Chelsea", [20, 9, 9], [64, 43], "WWLWW", "champions_league"),
+  standing(5, "Newcastle United", [20, 6, 12], [68, 47], "WLWLL", "champions_league"),
+  standing(6, "Aston Villa", [19, 9, 10], [58, 51], "WWLWL", "europa_league"),
+  standing(7, "Nottingham Forest", [19, 8, 11], [58, 46], "DLDWL", "conference_league"),
+  standing(8, "Brighton", [16, 13, 9], [66, 59], "DWWWW"),
+  standing(9, "Bournemouth", [15, 11, 12], [58, 46], "WLDLW"),
+  standing(10, "Brentford", [16, 8, 14], [66, 57], "WWWLD"),
+  standing(11, "Fulham", [15, 9, 14], [54, 54], "LWWLL"),
+  standing(12, "Crystal Palace", [13, 14, 11], [51, 51], "WDDWD"),
+  standing(13, "Everton", [11, 15, 12], [42, 44], "DLWWW"),
+  standing(14, "West Ham", [11, 10, 17], [46, 62], "DDLWW"),
+  standing(15, "Manchester United", [11, 9, 18], [44, 54], "LLLLW"),
+  standing(16, "Wolves", [12, 6, 20], [54, 69], "WLLWD"),
+  standing(17, "Tottenham", [11, 5, 22], [64, 65], "LDLLL"),
+  standing(18, "Leicester City", [6, 7, 25], [33, 80], "LDWDL", "relegation"),
+  standing(19, "Ipswich Town", [4, 10, 24], [36, 82], "LLLLL", "relegation"),
+  standing(20, "Southampton", [2, 6, 30], [26, 86], "LLDLL", "relegation"),
+];
+
+const finalDay = (home_team: string, score: string, away_team: string): ApiFixture => ({
+  home_team,
+  away_team,
+  score,
+  date: "2025-05-25T15:00:00Z",
+  status: "FT",
+  competition: "Premier League",
+  round: "Matchweek 38",
+});
+
+const PL_2425_FINAL_DAY: ApiFixture[] = [
+  finalDay("Liverpool", "1-1", "Crystal Palace"),
+  finalDay("Southampton", "1-2", "Arsenal"),
+  finalDay("Fulham", "0-2", "Manchester City"),
+  finalDay("Nottingham Forest", "0-1", "Chelsea"),
+  finalDay("Newcastle United", "0-1", "Everton"),
+  finalDay("Manchester United", "2-0", "Aston Villa"),
+  finalDay("Tottenham", "1-4", "Brighton"),
+  finalDay("Wolves", "1-1", "Brentford"),
+  finalDay("Bournemouth", "2-0", "Leicester City"),
+  finalDay("West Ham", "3-1", "Ipswich Town"),
+];
+
+export const MOCK_SESSIONS: MockSession[] = [
+  {
+    id: "arsenal-chelsea",
+    keywords: ["arsenal", "chelsea", "north london", "emirates"],
+    thinking: pipeline("Arsenal vs Chelsea"),
+    result: {
+      success: true,
+      intent: "match_result",
+      summary:
+        "**Arsenal 2-1 Chelsea.** Bukayo Saka opened the scoring after a sweeping move down the right [1], Cole Palmer equalised from the spot before the break [2], and Declan Rice settled it with a header from a corner in the 78th minute [1, 3].",
+      match_metadata: {
+        home_team: "Arsenal",
+        away_team: "Chelsea",
+        match_date: "2025-03-16",
+        score: "2-1",
+        competition: "Premier League",
+        man_of_the_match: "Declan Rice",
+        match_summary: "Arsenal edged a tense London derby thanks to a late set-piece winner.",
+        key_moments: [
+          {
+            minute: "12",
+            event: "GOAL",
+            description: "Bukayo Saka finishes low at the near post, assisted by Martin Ødegaard",
+            team: "home",
+            momentum_impact: "high",
+            reasoning: "Early goal let Arsenal sit in a mid-block and counter.",
+          },
+          {
+            minute: "29",
+            event: "YELLOW_CARD",
+            description: "Moisés Caicedo booked for a late challenge on Ødegaard",
+            team: "away",
+            momentum_impact: "low negative",
+            reasoning: "Caicedo had to be careful in the press for the rest of the half.",
+          },
+          {
+            minute: "41",
+            event: "GOAL",
+            description: "Cole Palmer (pen) sends Raya the wrong way",
+            team: "away",
+            momentum_impact: "high",
+            reasoning: "Chelsea's best spell of pressure was finally rewarded.",
+          },
+          {
+            minute: "63",
+            event: "SUBSTITUTION",
+            description: "Leandro Trossard replaces Gabriel Martinelli",
+            team: "home",
+            momentum_impact: "medium",
+            reasoning: "Fresh legs on the left re-established Arsenal's territorial control.",
+          },
+          {
+            minute: "78",
+            event: "GOAL",
+            description: "Declan Rice heads in Saka's corner",
+            team: "home",
+            momentum_impact: "high",
+            reasoning: "Set-piece quality decided a game that had become stretched.",
+          },
+          {
+            minute: "90+3",
+            event: "WHISTLE",
+            description: "Full time at the Emirates",
+            team: "home",
+            reasoning: "Arsenal saw out five minutes of added time.",
+          },
+        ],
+      },
+      highlights: [
+        {
+          title: "Arsenal 2-1 Chelsea | Premier League Highlights",
+          url: "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+          duration: "9:48",
+          source_type: "youtube",
+          is_official_club: true,
+          is_nbc_sports: false,
+          confidence: 0.94,
+        },
+        {
+          title: "Extended highlights",
+          url: "https://www.youtube.com/watch?v=oHg5SJYRHA0",
+          duration: "18:02",
+          source_type: "youtube",
+          is_official_club: false,
+          is_nbc_sports: true,
+          confidence: 0.81,
+        },
+      ],
+      sources: [
+        "https://www.bbc.co.uk/sport/football/arsenal-chelsea-report",
+        "https://www.skysports.com/football/arsenal-vs-chelsea/report",
+        "https://www.arsenal.com/news/report-arsenal-2-1-chelsea",
+      ],
+      game_analysis: {
+        deep_analysis:
+          "## Shape and control\n\nArsenal built in a **3-2-5** with Ben White tucking inside, which pinned Chelsea's wingers and left Caicedo outnumbered.\n\n## Chelsea's response\n\nMaresca's side found joy when Palmer drifted into the right half-space, and the penalty came from exactly that pattern.\n\n## Decisive factor\n\nSet pieces: Arsenal's seventh headed goal from a corner this season.",
+        momentum_analysis: [
+          { minute: "12", team: "home", momentum_impact: "+3", event: "GOAL", description: "Saka opener" },
+          { minute: "35", team: "away", momentum_impact: "+2", event: "PRESSURE", description: "Chelsea dominate the ball" },
+          { minute: "41", team: "away", momentum_impact: "+3", event: "GOAL", description: "Palmer penalty" },
+          { minute: "63", team: "home", momentum_impact: "+2", event: "SUBSTITUTION", description: "Trossard on" },
+          { minute: "78", team: "home", momentum_impact: "+3", event: "GOAL", description: "Rice header" },
+        ],
+        tactical_analysis: {
+          formations: { home: "4-3-3", away: "4-2-3-1" },
+          home: {
+            pressing: "High, man-oriented press triggered by back passes",
+            possession: "56%",
+            build_up: "3-2-5 with White inverting",
+            strengths: ["Right-sided overloads", "Set pieces"],
+            weaknesses: ["Space behind Zinchenko in transition"],
+          },
+          away: {
+            pressing: "Mid-block 4-4-2, Palmer stepping onto Rice",
+            possession: "44%",
+            defensive_shape: "Compact, narrow back four",
+            strengths: ["Palmer in the right half-space"],
+            weaknesses: ["Defending near-post corners"],
+          },
+          possession_phases: [
+            { minutes: "0-25", team: "Arsenal", phase: "Control", possession: "64%", description: "Arsenal pinned Chelsea back." },
+            { minutes: "25-45", team: "Chelsea", phase: "Counter-pressure", possession: "58%", description: "Chelsea won second balls." },
+            { minutes: "45-90", team: "Arsenal", phase: "Territorial dominance", possession: "57%" },
+          ],
+          key_battles: [
+            {
+              home_player: "Bukayo Saka",
+              away_player: "Marc Cucurella",
+              area: "Arsenal right flank",
+              winner: "Saka",
+              description: "Saka beat Cucurella four times and created the winner from a won corner.",
+            },
+          ],
+          referee_influence: "Minimal; consistent with advantage.",
+        },
+      },
+    },
+  },
+  {
+    id: "premier-league-2425",
+    keywords: ["premier league", "won the league", "24/25", "2024/25", "champions", "title"],
+    thinking: pipeline("the 2024/25 Premier League"),
+    result: {
+      success: true,
+      intent: "standings",
+      summary:
+        "**Liverpool won the 2024/25 Premier League** in Arne Slot's first season, finishing ahead of Arsenal and Manchester City.",
+      match_metadata: null,
+      standings: { competition: "Premier League", season: "2024/25", table: PL_2425_TABLE },
+      fixtures: PL_2425_FINAL_DAY,
+      highlights: [],
+      sources: ["https://www.premierleague.com/tables"],
+      game_analysis: null,
+    },
+  },
+  {
+    id: "liverpool-psg",
+    keywords: ["liverpool", "psg", "paris", "anfield", "champions league", "penalties", "shootout"],
+    thinking: pipeline("Liverpool vs Paris Saint-Germain"),
+    result: {
+      success: true,
+      intent: "match_result",
+      summary:
+        "**Liverpool 0-1 Paris Saint-Germain (agg 1-1), PSG win 4-1 on penalties.** Ousmane Dembélé levelled the tie early at Anfield [1], Gianluigi Donnarumma kept Liverpool out through extra time and then saved from Darwin Núñez and Curtis Jones in the shoot-out [2].",
+      match_metadata: {
+        home_team: "Liverpool",
+        away_team: "Paris Saint-Germain",
+        match_date: "2025-03-11",
+        score: "0-1 aet (agg 1-1, 1-4 pens)",
+        competition: "UEFA Champions League",
+        status: "AP",
+        man_of_the_match: "Gianluigi Donnarumma",
+        key_moments: [
+          {
+            minute: "12",
+            event: "GOAL",
+            description: "Ousmane Dembélé finishes from close range after a cut-back from Bradley Barcola",
+            team: "away",
+            momentum_impact: "high",
+          },
+          {
+            minute: "56",
+            event: "YELLOW_CARD",
+            description: "Ibrahima Konaté booked for a late tackle on Kvaratskhelia",
+            team: "home",
+            momentum_impact: "low negative",
+          },
+          {
+            minute: "120",
+            event: "WHISTLE",
+            description: "Extra time ends goalless; the tie goes to penalties",
+            team: "home",
+          },
+        ],
+      },
+      highlights: [],
+      sources: [
+        "https://www.uefa.com/uefachampionsleague/match/liverpool-paris",
+        "https://www.bbc.co.uk/sport/football/liverpool-psg-report",
+      ],
+      game_analysis: null,
+    },
+  },
+  {
+    id: "salah-2425",
+    keywords: ["salah", "mo salah", "how did", "perform", "stats", "season"],
+    thinking: pipeline("Mohamed Salah's season").slice(0, 6),
+    result: {
+      success: true,
+      intent: "player_stats",
+      summary:
+        "**Mohamed Salah** had the best league season of his Liverpool career in 2024/25, leading the title charge as both top scorer and top assister [1].\n\n" +
+        "- **Goals:** 29\n- **Assists:** 18\n- **Appearances:** 38\n- **Minutes:** 3,371\n\n" +
+        "He won the Golden Boot and the Playmaker award in the same season, and was named PFA Players' Player of the Year [2].",
+      match_metadata: { competition: "Premier League 2024/25" },
+      highlights: [],
+      sources: [
+        { url: "https://www.premierleague.com/players/5178/mohamed-salah/stats", title: "Mohamed Salah – Stats", publisher: "Premier League" },
+        { url: "https://www.bbc.co.uk/sport/football/articles/salah-pfa", title: "Salah wins PFA Players' Player of the Year", publisher: "BBC Sport" },
+      ],
+      game_analysis: null,
+    },
+  },
+];
+
+/** Generic answer used when no recording matches the query. */
+export const fallbackSession = (query: string): MockSession => ({
+  id: "generic",
+  keywords: [],
+  thinking: pipeline("your question").slice(0, 4),
+  result: {
+    success: true,
+    intent: "general_question",
+    summary: `This is a **mock answer** for: _${query}_.\n\nStart the app without \`ANALYSIS_MOCK\` to query the real analysis backend.`,
+    match_metadata: null,
+    highlights: [],
+    sources: [],
+    game_analysis: null,
+  },
+});
+
+const LIVE_EVENTS: ApiKeyMoment[] = [
+  { minute: "9", event: "YELLOW_CARD", description: "Rodri booked for pulling back Jude Bellingham", team: "away", momentum_impact: "low negative" },
+  { minute: "23", event: "GOAL", description: "Vinícius Júnior curls in from the edge of the box", team: "home", momentum_impact: "high" },
+  { minute: "44", event: "GOAL", description: "Phil Foden volleys in a cut-back from Bernardo Silva", team: "away", momentum_impact: "high" },
+  { minute: "58", event: "SUBSTITUTION", description: "Luka Modrić replaces Eduardo Camavinga", team: "home", momentum_impact: "medium" },
+  { minute: "71", event: "RED_CARD", description: "Antonio Rüdiger sent off for denying a goal-scoring opportunity", team: "home", momentum_impact: "high negative" },
+  { minute: "86", event: "GOAL", description: "Erling Haaland heads in Kevin De Bruyne's free kick", team: "away", momentum_impact: "high" },
+];
+
+// Simulated clock for the live session: one match minute every few seconds since the
+// server started, with a short half-time break, so polling sees the game progress.
+const LIVE_STARTED_AT = Date.now();
+const LIVE_SECONDS_PER_MINUTE = 4;
+
+/** A match in progress whose minute, score and events advance with wall-clock time. */
+export const liveMockSession = (now = Date.now()): MockSession => {
+  const elapsed = Math.floor((now - LIVE_STARTED_AT) / 1000 / LIVE_SECONDS_PER_MINUTE);
+  const clock = Math.min(elapsed, 100);
+  const minute = clock <= 45 ? clock : clock <= 50 ? 45 : Math.min(clock - 5, 95);
+  const status = clock <= 45 ? "1H" : clock <= 50 ? "HT" : clock - 5 < 95 ? "2H" : "FT";
+  const events = LIVE_EVENTS.filter((event) => Number(event.minute) <= minute);
+  const goals = (team: string) => events.filter((event) => event.event === "GOAL" && event.team === team).length;
+  const score = `${goals("home")}-${goals("away")}`;
+
+  return {
+    id: "live",
+    keywords: ["live"],
+    thinking: pipeline("the live match").slice(0, 4),
+    result: {
+      success: true,
+      intent: "live_match",
+      summary: `**Real Madrid ${score} Manchester City** — ${status === "FT" ? "full time" : `${minute}' played`} at the Bernabéu.`,
+      match_metadata: {
+        home_team: "Real Madrid",
+        away_team: "Manchester City",
+        match_date: new Date(LIVE_STARTED_AT).toISOString().slice(0, 10),
+        competition: "UEFA Champions League",
+        score,
+        status,
+        minute: String(minute),
+        key_moments: events,
+      },
+      highlights: [],
+      sources: [],
+      game_analysis: null,
+    },
+  };
+};
+
+export const findMockSession = (query: string) => {
+  const text = query.toLowerCase();
+  if (/\blive\b/.test(text)) return liveMockSession();
+  let best: MockSession | null = null;
+  let bestScore = 0;
+  for (const session of MOCK_SESSIONS) {
+    const score = session.keywords.filter((keyword) => text.includes(keyword)).length;
+    if (score > bestScore) {
+      best = session;
+      bestScore = score;
+    }
+  }
+  return best ?? fallbackSession(query);
+};
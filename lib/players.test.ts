@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { cardKind, playerSpotlight } from "./players";
+import type { ApiKeyMoment } from "./types";
+
+describe("cardKind", () => {
+  const cases: [string | undefined, string | null][] = [
+    ["YELLOW_CARD", "yellow_card"],
+    ["yellow card", "yellow_card"],
+    ["Red-Card", "red_card"],
+    ["second_yellow", "red_card"],
+    ["GOAL", null],
+    [undefined, null],
+  ];
+
+  it.each(cases)("reads %j", (event, kind) => {
+    expect(cardKind({ event })).toBe(kind);
+  });
+});
+
+describe("playerSpotlight", () => {
+  const spotlight = (key_moments: ApiKeyMoment[], man_of_the_match?: string) =>
+    playerSpotlight({ home_team: "Arsenal", away_team: "Manchester City", key_moments, man_of_the_match });
+
+  it("merges a short name into the one full name it matches", () => {
+    const players = spotlight(
+      [
+        { minute: "12", event: "GOAL", team: "home", description: "Saka curls it in" },
+        { minute: "60", event: "GOAL", team: "home", player: "Bukayo Saka" },
+      ],
+      "Saka",
+    );
+    expect(players).toHaveLength(1);
+    expect(players[0]).toMatchObject({ name: "Bukayo Saka", side: "home", manOfTheMatch: true });
+    expect(players[0].involvements.map(({ minute }) => minute)).toEqual(["12", "60"]);
+  });
+
+  it("keeps a surname shared by two players apart from both", () => {
+    const players = spotlight([
+      { minute: "10", event: "YELLOW_CARD", team: "away", player: "Silva" },
+      { minute: "20", event: "GOAL", team: "away", player: "Bernardo Silva" },
+      { minute: "30", event: "RED_CARD", team: "home", player: "Thiago Silva" },
+    ]);
+    const byName = Object.fromEntries(players.map((player) => [player.name, player.involvements.map(({ kind }) => kind)]));
+    expect(byName).toEqual({ "Bernardo Silva": ["goal"], "Thiago Silva": ["red_card"], Silva: ["yellow_card"] });
+  });
+
+  it("credits cards whatever the event type's spelling", () => {
+    const [player] = spotlight([{ minute: "30", event: "yellow card", team: "away", description: "Rodri booked for a foul" }]);
+    expect(player).toMatchObject({ name: "Rodri", side: "away", involvements: [{ kind: "yellow_card", minute: "30" }] });
+  });
+});
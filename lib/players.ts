@@ -0,0 +1,143 @@
+import { eventType, parseMinute, teamSide, type TeamSide } from "./match";
+import { cleanName, leadingPlayer, PLAYER_NAME, toGoalEvent, type MatchTeams } from "./score";
+import type { ApiKeyMoment, ApiMatchMetadata } from "./types";
+
+export type InvolvementKind = "goal" | "penalty_goal" | "own_goal" | "assist" | "yellow_card" | "red_card" | "sub_on" | "sub_off";
+
+export const INVOLVEMENT_LABELS: Record<InvolvementKind, [singular: string, plural: string]> = {
+  goal: ["goal", "goals"],
+  penalty_goal: ["penalty", "penalties"],
+  own_goal: ["own goal", "own goals"],
+  assist: ["assist", "assists"],
+  yellow_card: ["yellow card", "yellow cards"],
+  red_card: ["red card", "red cards"],
+  sub_on: ["came on", "came on"],
+  sub_off: ["went off", "went off"],
+};
+
+export type Involvement = { kind: InvolvementKind; minute: string };
+
+/** One player named in the key moments, with everything they were involved in. */
+export type PlayerSpotlight = {
+  name: string;
+  side: TeamSide | null;
+  involvements: Involvement[];
+  manOfTheMatch: boolean;
+};
+
+// How much each involvement counts towards the order of the spotlight.
+const WEIGHTS: Record<InvolvementKind, number> = {
+  goal: 5,
+  penalty_goal: 4,
+  assist: 3,
+  red_card: 2,
+  own_goal: 1,
+  yellow_card: 1,
+  sub_on: 1,
+  sub_off: 0,
+};
+
+const SUB_ON_FOR = new RegExp(String.raw`^(${PLAYER_NAME})\s+(?:replaces|comes on for|on for|in for|takes over from)\s+(${PLAYER_NAME})`, "u");
+const SUB_OFF_FOR = new RegExp(String.raw`^(${PLAYER_NAME})\s+(?:is\s+)?(?:replaced by|makes way for|off for|off,)\s+(${PLAYER_NAME})`, "u");
+
+const CARDS: Record<string, InvolvementKind> = { YELLOW_CARD: "yellow_card", RED_CARD: "red_card", SECOND_YELLOW: "red_card" };
+
+/** The card a key moment shows, whatever spelling its event type uses; null for other events. */
+export const cardKind = (moment: ApiKeyMoment): InvolvementKind | null => CARDS[eventType(moment.event)] ?? null;
+
+/** Who did what in one key moment; a moment may involve two players (goal and assist, or a substitution). */
+const momentInvolvements = (moment: ApiKeyMoment, teams?: MatchTeams | null): [string | null, InvolvementKind][] => {
+  const type = eventType(moment.event);
+  const card = cardKind(moment);
+  const description = moment.description?.trim() || "";
+
+  const goal = toGoalEvent(moment, teams);
+  if (goal) {
+    return [
+      [goal.scorer, goal.ownGoal ? "own_goal" : goal.penalty ? "penalty_goal" : "goal"],
+      [goal.assist, "assist"],
+    ];
+  }
+  if (card) return [[cleanName(moment.player) ?? leadingPlayer(description, teams), card]];
+  if (type.includes("SUB")) {
+    const on = description.match(SUB_ON_FOR);
+    if (on) return [[cleanName(on[1]), "sub_on"], [cleanName(on[2]), "sub_off"]];
+    const off = description.match(SUB_OFF_FOR);
+    if (off) return [[cleanName(off[2]), "sub_on"], [cleanName(off[1]), "sub_off"]];
+  }
+  return [];
+};
+
+const words = (name: string) => name.toLowerCase().split(/\s+/);
+
+/** "Saka" and "Bukayo Saka" are the same player: one name ends with the other. */
+const sameName = (a: string, b: string) => {
+  const [short, long] = words(a).length <= words(b).length ? [words(a), words(b)] : [words(b), words(a)];
+  return short.every((word, i) => long[long.length - short.length + i] === word);
+};
+
+/**
+ * The man of the match and the players the key moments mention, most involved
+ * first. A short name is merged into the one longer name it is part of ("Saka"
+ * into "Bukayo Saka"); one that fits several ("Silva" for Bernardo and Thiago
+ * Silva) is kept apart rather than credited to either.
+ */
+export const playerSpotlight = (meta?: ApiMatchMetadata | null): PlayerSpotlight[] => {
+  const mentions: { name: string; side: TeamSide | null; involvement: Involvement }[] = [];
+  for (const moment of meta?.key_moments ?? []) {
+    const side = teamSide(moment.team);
+    for (const [name, kind] of momentInvolvements(moment, meta)) {
+      if (!name) continue;
+      // An own goal is credited to the other side, so it says nothing about the player's team.
+      mentions.push({ name, side: kind === "own_goal" ? null : side, involvement: { kind, minute: moment.minute ?? "" } });
+    }
+  }
+  const motm = cleanName(meta?.man_of_the_match);
+
+  const names = [...new Set([...mentions.map(({ name }) => name), ...(motm ? [motm] : [])])];
+  const fullName = (name: string): string => {
+    const longer = names.filter((other) => words(other).length > words(name).length && sameName(name, other));
+    const candidates = new Set(longer.map(fullName).map((other) => other.toLowerCase()));
+    return candidates.size === 1 ? fullName(longer[0]) : name;
+  };
+
+  const players = new Map<string, PlayerSpotlight>();
+  const add = (name: string, side: TeamSide | null) => {
+    const full = fullName(name);
+    const key = full.toLowerCase();
+    const player = players.get(key) ?? { name: full, side: null, involvements: [], manOfTheMatch: false };
+    if (!player.side) player.side = side;
+    players.set(key, player);
+    return player;
+  };
+
+  for (const { name, side, involvement } of mentions) add(name, side).involvements.push(involvement);
+  if (motm) add(motm, null).manOfTheMatch = true;
+
+  const weight = (player: PlayerSpotlight) =>
+    (player.manOfTheMatch ? 100 : 0) + player.involvements.reduce((sum, { kind }) => sum + WEIGHTS[kind], 0);
+  for (const player of players.values()) {
+    player.involvements.sort((a, b) => (parseMinute(a.minute) ?? 0) - (parseMinute(b.minute) ?? 0));
+  }
+  return [...players.values()].sort((a, b) => weight(b) - weight(a));
+};
+
+/** "2 goals (12', 78'), yellow card (29')" for one player. */
+export const involvementSummary = (involvements: Involvement[]) => {
+  const groups = new Map<InvolvementKind, string[]>();
+  for (const { kind, minute } of involvements) groups.set(kind, [...(groups.get(kind) ?? []), minute]);
+  return [...groups]
+    .map(([kind, minutes]) => {
+      const [singular, plural] = INVOLVEMENT_LABELS[kind];
+      const times = minutes.filter(Boolean).map((minute) => `${minute}'`).join(", ");
+      const label = minutes.length > 1 && singular !== plural ? `${minutes.length} ${plural}` : singular;
+      return times ? `${label} (${times})` : label;
+    })
+    .join(", ");
+};
+
+/** Follow-up question about one player, tied to the match when the teams are known. */
+export const playerQuery = (name: string, meta?: ApiMatchMetadata | null) =>
+  meta?.home_team && meta.away_team
+    ? `How did ${name} perform in ${meta.home_team} vs ${meta.away_team}?`
+    : `How did ${name} perform?`;
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_QUERY_OPTIONS, optionsFromSearchParams, recentSeasons, updateOptions, type QueryOptions } from "./queryOptions";
+
+describe("optionsFromSearchParams", () => {
+  const base: QueryOptions = { ...DEFAULT_QUERY_OPTIONS, competition: "La Liga", dateFrom: "2025-01-01" };
+  const [season] = recentSeasons();
+
+  const cases: [string, Partial<QueryOptions>][] = [
+    ["competition=Serie+A", { competition: "Serie A" }],
+    ["competition=premier+league", { competition: "Premier League" }],
+    ["competition=Sunday+League", { competition: "La Liga" }],
+    ["competition=", { competition: "" }],
+    [`season=${encodeURIComponent(season)}`, { season }],
+    ["season=1999/00", { season: "" }],
+    ["from=2025-02-01&to=2025-03-01", { dateFrom: "2025-02-01", dateTo: "2025-03-01" }],
+    ["from=2025-03-01&to=2025-02-01", { dateFrom: "2025-01-01", dateTo: "" }],
+    ["to=2024-12-01", { dateFrom: "2025-01-01", dateTo: "" }],
+    ["from=yesterday", { dateFrom: "2025-01-01" }],
+  ];
+
+  it.each(cases)("reads %s", (search, expected) => {
+    expect(optionsFromSearchParams(new URLSearchParams(search), base)).toMatchObject(expected);
+  });
+});
+
+describe("updateOptions", () => {
+  const options: QueryOptions = { ...DEFAULT_QUERY_OPTIONS, dateFrom: "2025-02-01", dateTo: "2025-03-01" };
+
+  const cases: [Partial<QueryOptions>, Partial<QueryOptions>][] = [
+    [{ dateTo: "2025-04-01" }, { dateFrom: "2025-02-01", dateTo: "2025-04-01" }],
+    [{ dateTo: "2025-01-01" }, { dateFrom: "2025-02-01", dateTo: "2025-03-01" }],
+    [{ dateFrom: "2025-03-02" }, { dateFrom: "2025-02-01", dateTo: "2025-03-01" }],
+    [{ dateFrom: "" }, { dateFrom: "", dateTo: "2025-03-01" }],
+    [{ competition: "Bundesliga" }, { competition: "Bundesliga" }],
+  ];
+
+  it.each(cases)("applies %j", (changes, expected) => {
+    expect(updateOptions(options, changes)).toMatchObject(expected);
+  });
+});
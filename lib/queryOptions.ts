@@ -0,0 +1,151 @@
+export type Gender = "men" | "women";
+
+/** User-adjustable request settings sent with every query. Empty strings mean "any". */
+export type QueryOptions = {
+  includeHighlights: boolean;
+  emphasizeOrder: boolean;
+  gender: Gender;
+  competition: string;
+  season: string;
+  dateFrom: string;
+  dateTo: string;
+};
+
+export const DEFAULT_QUERY_OPTIONS: QueryOptions = {
+  includeHighlights: true,
+  emphasizeOrder: true,
+  gender: "men",
+  competition: "",
+  season: "",
+  dateFrom: "",
+  dateTo: "",
+};
+
+export const COMPETITIONS = [
+  "Premier League",
+  "La Liga",
+  "Serie A",
+  "Bundesliga",
+  "Ligue 1",
+  "Champions League",
+  "Europa League",
+  "FA Cup",
+  "Women's Super League",
+  "Liga F",
+  "Women's Champions League",
+  "NWSL",
+  "MLS",
+  "World Cup",
+  "Women's World Cup",
+  "European Championship",
+];
+
+/** The current season and the ones before it, newest first, e.g. "2025/26". */
+export const recentSeasons = (count = 8, now = new Date()) => {
+  // European seasons roll over in July.
+  const startYear = now.getMonth() >= 6 ? now.getFullYear() : now.getFullYear() - 1;
+  return Array.from({ length: count }, (_, i) => {
+    const year = startYear - i;
+    return `${year}/${String((year + 1) % 100).padStart(2, "0")}`;
+  });
+};
+
+const STORAGE_KEY = "soccer-mind:query-options";
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const PARAM_KEYS = {
+  includeHighlights: "highlights",
+  emphasizeOrder: "order",
+  gender: "gender",
+  competition: "competition",
+  season: "season",
+  dateFrom: "from",
+  dateTo: "to",
+} as const satisfies Record<keyof QueryOptions, string>;
+
+/**
+ * Keeps only values the options panel can show: a competition or season outside its
+ * lists, or a date range that ends before it starts, falls back to `base`.
+ */
+const sanitize = (raw: Partial<Record<keyof QueryOptions, unknown>>, base: QueryOptions): QueryOptions => {
+  const flag = (value: unknown, fallback: boolean) =>
+    value === true || value === "1" ? true : value === false || value === "0" ? false : fallback;
+  // Case-insensitive, so "premier league" in a hand-written link still selects "Premier League".
+  const listed = (value: unknown, choices: string[], fallback: string) => {
+    if (typeof value !== "string") return fallback;
+    const text = value.trim().toLowerCase();
+    return text ? (choices.find((choice) => choice.toLowerCase() === text) ?? fallback) : "";
+  };
+  const date = (value: unknown, fallback: string) =>
+    typeof value === "string" && (value === "" || DATE_PATTERN.test(value)) ? value : fallback;
+
+  const dateFrom = date(raw.dateFrom, base.dateFrom);
+  const dateTo = date(raw.dateTo, base.dateTo);
+  const ordered = !dateFrom || !dateTo || dateFrom <= dateTo;
+
+  return {
+    includeHighlights: flag(raw.includeHighlights, base.includeHighlights),
+    emphasizeOrder: flag(raw.emphasizeOrder, base.emphasizeOrder),
+    gender: raw.gender === "men" || raw.gender === "women" ? raw.gender : base.gender,
+    competition: listed(raw.competition, COMPETITIONS, base.competition),
+    season: listed(raw.season, recentSeasons(), base.season),
+    dateFrom: ordered ? dateFrom : base.dateFrom,
+    dateTo: ordered ? dateTo : base.dateTo,
+  };
+};
+
+/** Applies a change made in the options panel; a rejected value, such as a reversed date range, keeps the current one. */
+export const updateOptions = (options: QueryOptions, changes: Partial<QueryOptions>) => sanitize({ ...options, ...changes }, options);
+
+/** Reads options from the URL; keys that are absent keep their `base` value. */
+export const optionsFromSearchParams = (params: URLSearchParams, base: QueryOptions) => {
+  const raw: Partial<Record<keyof QueryOptions, string>> = {};
+  for (const [key, param] of Object.entries(PARAM_KEYS) as [keyof QueryOptions, string][]) {
+    const value = params.get(param);
+    if (value !== null) raw[key] = value;
+  }
+  return sanitize(raw, base);
+};
+
+/** Writes non-default options into `params`, removing the ones that are back to default. */
+export const applyOptionsToSearchParams = (params: URLSearchParams, options: QueryOptions) => {
+  for (const [key, param] of Object.entries(PARAM_KEYS) as [keyof QueryOptions, string][]) {
+    const value = options[key];
+    if (value === DEFAULT_QUERY_OPTIONS[key]) params.delete(param);
+    else params.set(param, typeof value === "boolean" ? (value ? "1" : "0") : value);
+  }
+  return params;
+};
+
+export const loadStoredOptions = (): QueryOptions => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? sanitize(JSON.parse(stored), DEFAULT_QUERY_OPTIONS) : DEFAULT_QUERY_OPTIONS;
+  } catch {
+    return DEFAULT_QUERY_OPTIONS;
+  }
+};
+
+export const storeOptions = (options: QueryOptions) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+  } catch {
+    // storage can be full or disabled; the URL still carries the options
+  }
+};
+
+/** Number of filters that narrow the search, for the "Advanced" badge. */
+export const activeFilterCount = (options: QueryOptions) =>
+  [options.gender !== DEFAULT_QUERY_OPTIONS.gender, options.competition, options.season, options.dateFrom, options.dateTo]
+    .filter(Boolean).length;
+
+/** Request body fields understood by the backend's `/query/stream`. */
+export const toRequestFilters = (options: Partial<QueryOptions>) => ({
+  include_highlights: options.includeHighlights ?? DEFAULT_QUERY_OPTIONS.includeHighlights,
+  emphasize_order: options.emphasizeOrder ?? DEFAULT_QUERY_OPTIONS.emphasizeOrder,
+  gender: options.gender ?? DEFAULT_QUERY_OPTIONS.gender,
+  ...(options.competition ? { competition: options.competition } : {}),
+  ...(options.season ? { season: options.season } : {}),
+  ...(options.dateFrom ? { date_from: options.dateFrom } : {}),
+  ...(options.dateTo ? { date_to: options.dateTo } : {}),
+});
@@ -0,0 +1,49 @@
+import { toTimelineMoments } from "./match";
+import { matchHeadline } from "./share";
+import { collectSources } from "./sources";
+import { cleanText } from "./text";
+import type { ApiResponse } from "./types";
+
+/** Markdown export of an analysis: headline, summary, key moments, deep analysis and sources. */
+export const analysisToMarkdown = (query: string, response: ApiResponse) => {
+  const meta = response.match_metadata;
+  const sections: string[] = [`# ${matchHeadline(meta) ?? query}`];
+
+  const details = [meta?.competition, meta?.match_date].filter(Boolean).join(" · ");
+  sections.push([details && `_${details}_`, `> ${query}`].filter(Boolean).join("\n\n"));
+
+  if (response.summary) sections.push(`## Summary\n\n${cleanText(response.summary)}`);
+
+  const moments = toTimelineMoments(meta?.key_moments);
+  if (moments.length) {
+    const lines = moments.map((moment) => {
+      const team = moment.side ? (moment.side === "home" ? meta?.home_team : meta?.away_team) : moment.team;
+      const label = [moment.event?.replace(/_/g, " "), team].filter(Boolean).join(" · ");
+      return `- **${moment.minute}'** ${label}${moment.description ? ` — ${moment.description}` : ""}`;
+    });
+    sections.push(`## Key moments\n\n${lines.join("\n")}`);
+  }
+
+  const deep = response.game_analysis?.deep_analysis;
+  if (deep) sections.push(`## Deep analysis\n\n${cleanText(deep)}`);
+
+  const sources = collectSources(response);
+  if (sources.length) {
+    const lines = sources.map((source) =>
+      source.url ? `${source.number}. [${source.title}](${source.url})` : `${source.number}. ${source.title}`,
+    );
+    sections.push(`## Sources\n\n${lines.join("\n")}`);
+  }
+
+  return `${sections.join("\n\n")}\n`;
+};
+
+/** "arsenal-2-1-chelsea" style base name for exported files. */
+export const exportFileName = (query: string, response: ApiResponse) =>
+  (matchHeadline(response.match_metadata) ?? query)
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 60) || "analysis";
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { apiResponseSchema } from "./schemas";
+
+describe("apiResponseSchema", () => {
+  it("coerces a numeric string confidence", () => {
+    const result = apiResponseSchema({ success: true, highlights: [{ url: "https://example.com/v", confidence: "0.9" }] });
+    expect(result).toMatchObject({ ok: true, value: { highlights: [{ confidence: 0.9 }] } });
+    expect(result.issues).toBeUndefined();
+  });
+
+  const cases: [string, Record<string, unknown>, Record<string, unknown>, number][] = [
+    ["a malformed source", { sources: ["https://a.example", 42, { url: "https://b.example" }] }, { sources: ["https://a.example", { url: "https://b.example" }] }, 2],
+    ["a malformed highlight", { highlights: [{ title: "Goals", confidence: "high" }, { title: "Extended" }] }, { highlights: [{ title: "Extended" }] }, 2],
+    ["a malformed key moment", { match_metadata: { home_team: "Arsenal", key_moments: [{ minute: "12", event: "GOAL" }, { minute: {} }] } }, { match_metadata: { home_team: "Arsenal", key_moments: [{ minute: "12", event: "GOAL" }] } }, 1],
+    ["sources that are not a list", { sources: "https://a.example" }, { summary: "Arsenal won." }, 1],
+    ["malformed metadata", { match_metadata: { home_team: 7 } }, { summary: "Arsenal won." }, 1],
+  ];
+
+  // A dropped string-or-object item reports why it failed as either.
+  it.each(cases)("leaves out %s and reports it", (_, fields, expected, issues) => {
+    const result = apiResponseSchema({ success: true, summary: "Arsenal won.", ...fields }, "data");
+    expect(result).toMatchObject({ ok: true, value: expected });
+    expect(result.issues).toHaveLength(issues);
+  });
+
+  it("drops nothing else with the invalid part", () => {
+    const result = apiResponseSchema({ success: true, summary: "Arsenal won.", match_metadata: { home_team: 7 }, sources: ["https://a.example"] });
+    expect(result.ok && result.value).toMatchObject({ summary: "Arsenal won.", sources: ["https://a.example"] });
+    expect(result.ok && result.value.match_metadata).toBeUndefined();
+  });
+
+  it("fails on invalid top-level answer fields", () => {
+    expect(apiResponseSchema({ success: "yes", summary: "Arsenal won." }).ok).toBe(false);
+    expect(apiResponseSchema({ success: true, summary: 5 }).ok).toBe(false);
+    expect(apiResponseSchema("Arsenal won.").ok).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+import type {
+  AnalysisDelta,
+  ApiHighlight,
+  ApiKeyMoment,
+  ApiMatchMetadata,
+  ApiFixture,
+  ApiResponse,
+  ApiSource,
+  ApiStandingRow,
+  ApiStandings,
+  ApiTacticalAnalysis,
+} from "./types";
+import {
+  array,
+  boolean,
+  lenient,
+  literal,
+  looseArray,
+  nullable,
+  numberish,
+  object,
+  optional,
+  record,
+  string,
+  stringish,
+  union,
+  type Schema,
+} from "./validate";
+
+export const highlightSchema: Schema<ApiHighlight> = object({
+  title: optional(string),
+  url: optional(string),
+  duration: optional(stringish),
+  source_type: nullable(string),
+  is_nbc_sports: nullable(boolean),
+  is_official_club: nullable(boolean),
+  confidence: nullable(numberish),
+});
+
+export const sourceSchema: Schema<ApiSource> = object({
+  url: optional(string),
+  title: optional(string),
+  publisher: optional(string),
+  accessed_at: optional(string),
+});
+
+export const keyMomentSchema: Schema<ApiKeyMoment> = object({
+  minute: optional(stringish),
+  event: optional(string),
+  description: optional(string),
+  team: optional(string),
+  player: optional(string),
+  assist: optional(string),
+  momentum_impact: optional(stringish),
+  reasoning: optional(string),
+});
+
+export const matchMetadataSchema: Schema<ApiMatchMetadata> = object({
+  home_team: optional(string),
+  away_team: optional(string),
+  match_date: optional(string),
+  score: optional(stringish),
+  competition: optional(string),
+  status: optional(string),
+  minute: optional(stringish),
+  key_moments: optional(looseArray(keyMomentSchema)),
+  man_of_the_match: optional(string),
+  match_summary: optional(string),
+});
+
+export const standingRowSchema: Schema<ApiStandingRow> = object({
+  position: optional(numberish),
+  team: optional(string),
+  played: optional(numberish),
+  won: optional(numberish),
+  drawn: optional(numberish),
+  lost: optional(numberish),
+  goals_for: optional(numberish),
+  goals_against: optional(numberish),
+  goal_difference: optional(numberish),
+  points: optional(numberish),
+  form: optional(union(string, array(string))),
+  zone: optional(string),
+});
+
+export const standingsSchema: Schema<ApiStandings> = object({
+  competition: optional(string),
+  season: optional(stringish),
+  table: optional(looseArray(standingRowSchema)),
+});
+
+export const fixtureSchema: Schema<ApiFixture> = object({
+  home_team: optional(string),
+  away_team: optional(string),
+  date: optional(string),
+  score: optional(stringish),
+  status: optional(string),
+  competition: optional(string),
+  round: optional(stringish),
+  venue: optional(string),
+});
+
+// Tactical payloads are free-form; `parseTacticalAnalysis` reads them defensively.
+const tacticalAnalysisSchema = record as Schema<ApiTacticalAnalysis>;
+
+/**
+ * The result of an analysis. Only the top-level answer fields fail it outright;
+ * invalid parts of the optional sections (one bad highlight, source or key moment)
+ * are left out and reported in `issues`, so the rest of the answer still shows.
+ */
+export const apiResponseSchema: Schema<ApiResponse> = object({
+  success: optional(boolean),
+  intent: nullable(string),
+  summary: nullable(string),
+  answer: nullable(string),
+  error: nullable(string),
+  match_metadata: lenient(nullable(matchMetadataSchema)),
+  highlights: lenient(optional(looseArray(union(string, highlightSchema)))),
+  sources: lenient(optional(looseArray(union(string, sourceSchema)))),
+  standings: lenient(nullable(standingsSchema)),
+  fixtures: lenient(optional(looseArray(fixtureSchema))),
+  game_analysis: lenient(
+    nullable(
+      object({
+        deep_analysis: optional(string),
+        momentum_analysis: optional(looseArray(keyMomentSchema)),
+        tactical_analysis: optional(tacticalAnalysisSchema),
+      }),
+    ),
+  ),
+});
+
+export const thinkingPayloadSchema = object({
+  stage: optional(string),
+  message: optional(stringish),
+  status: optional(string),
+});
+
+export const deltaPayloadSchema: Schema<AnalysisDelta> = object({
+  field: optional(literal("summary", "deep_analysis")),
+  text: optional(string),
+  match_metadata: optional(matchMetadataSchema),
+});
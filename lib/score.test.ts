@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { parseScore, toGoalEvent, type MatchScore } from "./score";
+import type { ApiKeyMoment } from "./types";
+
+const line = (home: number, away: number) => ({ home, away });
+
+describe("parseScore", () => {
+  const cases: [string | null | undefined, Partial<MatchScore> | null][] = [
+    ["2-1", { final: line(2, 1), extraTime: false, penalties: null }],
+    ["2–1", { final: line(2, 1) }],
+    ["0:0", { final: line(0, 0) }],
+    ["2-2 (4-3 pens)", { final: line(2, 2), penalties: line(4, 3) }],
+    ["3-2 aet (HT 1-0)", { final: line(3, 2), extraTime: true, halfTime: line(1, 0) }],
+    ["1-1 (ET 2-1)", { final: line(2, 1), regularTime: line(1, 1), extraTime: true }],
+    ["1–0 (agg 2-2)", { final: line(1, 0), aggregate: line(2, 2) }],
+    ["2-2 (2-2 at 90, 3-4 on penalties)", { final: line(2, 2), extraTime: true, penalties: line(3, 4) }],
+    ["HT 0-1", { final: line(0, 1), halfTime: line(0, 1) }],
+    ["–", null],
+    ["", null],
+    [null, null],
+    [undefined, null],
+  ];
+
+  it.each(cases)("reads %j", (text, expected) => {
+    const score = parseScore(text);
+    if (expected === null) expect(score).toBeNull();
+    else expect(score).toMatchObject(expected);
+  });
+});
+
+describe("toGoalEvent", () => {
+  const teams = { home_team: "Arsenal", away_team: "Manchester City" };
+  const cases: [string, ApiKeyMoment, { scorer?: string | null; assist?: string | null; ownGoal?: boolean; penalty?: boolean } | null][] = [
+    ["a plain goal", { minute: "12", event: "GOAL", team: "home", description: "Saka curls it in from the edge" }, { scorer: "Saka", assist: null }],
+    ["a goal with an assist", { minute: "34", event: "goal", team: "home", description: "Gabriel Martinelli finishes, assisted by Martin Ødegaard" }, { scorer: "Gabriel Martinelli", assist: "Martin Ødegaard" }],
+    ["a possessive assist", { minute: "50", event: "GOAL", description: "Haaland heads in Foden's cross" }, { scorer: "Haaland", assist: "Foden" }],
+    ["structured fields", { minute: "61", event: "GOAL", player: "Declan Rice", assist: "Saka", description: "A curling free kick" }, { scorer: "Declan Rice", assist: "Saka" }],
+    ["a penalty", { minute: "70+2", event: "PENALTY_GOAL", description: "Palmer sends the keeper the wrong way" }, { scorer: "Palmer", penalty: true }],
+    ["a penalty in the description", { minute: "88", event: "goal", description: "Penalty: Saka from the spot" }, { scorer: "Saka", penalty: true, assist: null }],
+    ["an own goal", { minute: "9", event: "own goal", description: "Own goal by Rúben Dias" }, { scorer: "Rúben Dias", ownGoal: true, assist: null }],
+    ["a lower-case goal_scored type", { minute: "15", event: "goal_scored", description: "Ødegaard drives it in" }, { scorer: "Ødegaard" }],
+    ["a spaced penalty scored type", { minute: "80", event: "Penalty Scored", description: "Saka sends the keeper the wrong way" }, { scorer: "Saka", penalty: true }],
+    ["a label before the scorer", { minute: "5", event: "GOAL", description: "Goal! Bukayo Saka taps in" }, { scorer: "Bukayo Saka" }],
+    ["a club before the scorer", { minute: "77", event: "GOAL", description: "Arsenal equalise through Gabriel Martinelli" }, { scorer: "Gabriel Martinelli" }],
+    ["a club as the assist", { minute: "40", event: "GOAL", description: "Gabriel heads in from Arsenal's corner" }, { scorer: "Gabriel", assist: null }],
+    ["a disallowed goal type", { minute: "20", event: "GOAL_DISALLOWED", description: "Saka's goal is disallowed" }, null],
+    ["a goal ruled out", { minute: "22", event: "GOAL", description: "Saka goal ruled out for offside" }, null],
+    ["a goal overturned by VAR", { minute: "64", event: "GOAL", description: "VAR overturned the goal for a handball" }, null],
+    ["no goal", { minute: "30", event: "NO_GOAL", description: "The ball did not cross the line" }, null],
+    ["a goal kick", { minute: "31", event: "GOAL_KICK", description: "Raya restarts" }, null],
+    ["a yellow card", { minute: "45", event: "YELLOW_CARD", description: "Rodri booked" }, null],
+  ];
+
+  it.each(cases)("reads %s", (_, moment, expected) => {
+    const goal = toGoalEvent(moment, teams);
+    if (expected === null) expect(goal).toBeNull();
+    else expect(goal).toMatchObject(expected);
+  });
+
+  it("keeps the minute and side", () => {
+    expect(toGoalEvent({ minute: "90+3", event: "GOAL", team: "away", description: "Foden scores" })).toMatchObject({
+      minute: "90+3",
+      minuteValue: 93,
+      side: "away",
+    });
+  });
+});
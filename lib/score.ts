@@ -0,0 +1,201 @@
+import { eventType, parseMinute, teamSide, type TeamSide } from "./match";
+import { findTeam, normalizeTeam } from "./teams";
+import type { ApiKeyMoment, ApiMatchMetadata } from "./types";
+
+/** Goals for each side in one period or tally. */
+export type ScoreLine = { home: number; away: number };
+
+/**
+ * A score string taken apart: "2-2 (4-3 pens)", "3-2 aet (HT 1-0)", "1–0 (agg 2-2)".
+ * `final` is the score when play ended, after extra time when it was played.
+ */
+export type MatchScore = {
+  final: ScoreLine;
+  halfTime: ScoreLine | null;
+  /** Score after 90 minutes, when extra time was played and the backend gave it. */
+  regularTime: ScoreLine | null;
+  extraTime: boolean;
+  penalties: ScoreLine | null;
+  aggregate: ScoreLine | null;
+};
+
+const SCORE_LINE = /(\d{1,2})\s*[-–—:]\s*(\d{1,2})/;
+
+type Period = "half_time" | "regular_time" | "extra_time" | "penalties" | "aggregate";
+
+// Checked in order: "pens" before "et" so "4-3 pens aet" is read as a shoot-out.
+const PERIOD_LABELS: [RegExp, Period][] = [
+  [/\b(pens?|penalties|penalty shoot-?out|shoot-?out|p|a\.?p\.?)\b|\bon penalties\b/i, "penalties"],
+  [/\b(agg\.?|aggregate|on aggregate)\b/i, "aggregate"],
+  [/\b(ht|h\/t|half[- ]?time)\b/i, "half_time"],
+  [/\b(a\.?e\.?t\.?|et|extra[- ]?time|after extra time)\b/i, "extra_time"],
+  [/\b(90|ft|full[- ]?time|regular time|normal time|after 90)\b/i, "regular_time"],
+];
+
+const periodOf = (text: string) => PERIOD_LABELS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+
+const toLine = (match: RegExpMatchArray): ScoreLine => ({ home: Number(match[1]), away: Number(match[2]) });
+
+/**
+ * Reads a score in any of the shapes the backend writes: hyphen, en dash or colon,
+ * with optional parenthesised or comma-separated half-time, extra-time, penalty and
+ * aggregate parts. Returns null when there is no score in the text.
+ */
+export const parseScore = (text?: string | null): MatchScore | null => {
+  const raw = text?.trim();
+  if (!raw) return null;
+
+  const score: MatchScore = { final: { home: 0, away: 0 }, halfTime: null, regularTime: null, extraTime: false, penalties: null, aggregate: null };
+  let final: ScoreLine | null = null;
+
+  for (const segment of raw.split(/[(),;[\]]/)) {
+    const line = segment.match(SCORE_LINE);
+    // Labels may sit either side of the numbers: "HT 1-0", "4-3 pens".
+    const period = periodOf(line ? segment.replace(SCORE_LINE, " ") : segment);
+    if (!line) {
+      if (period === "extra_time") score.extraTime = true;
+      continue;
+    }
+    const value = toLine(line);
+    if (period === "penalties") score.penalties = value;
+    else if (period === "aggregate") score.aggregate = value;
+    else if (period === "half_time") score.halfTime = value;
+    else if (period === "regular_time") score.regularTime = value;
+    else if (period === "extra_time") {
+      score.extraTime = true;
+      // "1-1 (ET 2-1)": the first score was the 90-minute one.
+      if (final) score.regularTime = final;
+      final = value;
+    } else if (!final) final = value;
+  }
+
+  // "HT 0-1" on its own is the current score of a match at the break.
+  if (!final) final = score.regularTime ?? score.halfTime;
+  if (!final) return null;
+  score.final = final;
+  // A separate 90-minute score only makes sense when play went on after it.
+  if (score.regularTime && score.regularTime !== final) score.extraTime = true;
+  return score;
+};
+
+/**
+ * The side that won the tie: the aggregate decides, then the shoot-out, then the
+ * score itself; a level line falls through to the next. Null for a draw.
+ */
+export const scoreWinner = (score: MatchScore): TeamSide | null => {
+  for (const line of [score.aggregate, score.penalties, score.final]) {
+    if (line && line.home !== line.away) return line.home > line.away ? "home" : "away";
+  }
+  return null;
+};
+
+/** "2-1" with an en dash, the way the banner and exports print scores. */
+export const formatScoreLine = (line: ScoreLine) => `${line.home}–${line.away}`;
+
+/** A goal from the key moments, with the players read from the structured fields or the description. */
+export type GoalEvent = {
+  minute: string;
+  minuteValue: number | null;
+  side: TeamSide | null;
+  scorer: string | null;
+  assist: string | null;
+  ownGoal: boolean;
+  penalty: boolean;
+};
+
+const NAME_WORD = String.raw`\p{Lu}[\p{L}\p{M}'’.-]*`;
+
+/**
+ * Regex source for a player name: capitalised words, allowing accents, apostrophes,
+ * hyphens and lower-case particles between them ("Kevin De Bruyne", "Virgil van Dijk").
+ * Needs the `u` flag.
+ */
+export const PLAYER_NAME = String.raw`${NAME_WORD}(?:\s+(?:(?:de|da|do|dos|van|von|der|den|di|le|la|el|al|ter|bin)\s+)*${NAME_WORD}){0,3}`;
+
+const LEADING_NAME = new RegExp(`^(${PLAYER_NAME})`, "u");
+const SCORER_AFTER = new RegExp(String.raw`\b(?:by|from|for|through)\s+(${PLAYER_NAME})`, "u");
+const ASSIST_AFTER = new RegExp(String.raw`\b(?:assisted by|assist(?:s)? from|assist:|set up by|from a pass by|after a pass from|pass from|cross from|cut-back from|cutback from|ball from|from)\s+(${PLAYER_NAME})`, "u");
+const ASSIST_POSSESSIVE = new RegExp(
+  String.raw`(${PLAYER_NAME})['’]s\s+(?:\w+\s+)?(?:cross|corner|free[- ]kick|pass|cut-?back|through[- ]ball|ball|delivery|header|knock-down|lay-off|assist)`,
+  "u",
+);
+
+// Capitalised words that open a description: labels are skipped, while an
+// article means the sentence starts with something other than the scorer.
+const LABEL_WORD = /^(goal|own|penalty|header|equaliser|winner|opener|late|early|great|brilliant|stunning)$/i;
+const ARTICLE = /^(the|a|an|after|from|his|her|their)$/i;
+
+// Event types that mean the ball went in and counted; "GOAL_KICK" or "NO_GOAL" do not.
+const GOAL_TYPES = new Set(["GOAL", "GOAL_SCORED", "PENALTY_GOAL", "PENALTY_SCORED", "OWN_GOAL"]);
+const NOT_COUNTED = /\b(ruled out|disallowed|chalked off|overturn(?:ed|s)?|cancel+ed|no goal)\b/i;
+
+const OWN_GOAL = /\b(own[- ]goal|o\.?g\.?)\b|\(og\)/i;
+const PENALTY = /\b(pen|penalty|spot[- ]kick|from the spot|from twelve yards)\b|\(p\)/i;
+
+/** Trims possessives and trailing punctuation off a matched name; null when nothing is left. */
+export const cleanName = (name?: string | null) => {
+  const trimmed = name?.replace(/['’]s$/, "").replace(/[.,:;-]+$/, "").trim();
+  return trimmed || null;
+};
+
+/** The clubs of the match, so their names are not taken for players. */
+export type MatchTeams = Pick<ApiMatchMetadata, "home_team" | "away_team">;
+
+const isClub = (name: string, teams?: MatchTeams | null) =>
+  findTeam(name) !== null ||
+  [teams?.home_team, teams?.away_team].some((team) => team && normalizeTeam(team) === normalizeTeam(name));
+
+/** A candidate name, unless it is empty or a club ("Arsenal equalise through..."). */
+const playerName = (name: string | null | undefined, teams?: MatchTeams | null) => {
+  const cleaned = cleanName(name);
+  return cleaned && !isClub(cleaned, teams) ? cleaned : null;
+};
+
+/** The player a description opens with ("Moisés Caicedo booked for..."), or null. */
+export const leadingPlayer = (description: string, teams?: MatchTeams | null) => {
+  const name = cleanName(description.match(LEADING_NAME)?.[1]);
+  if (!name) return null;
+  const words = name.split(/\s+/);
+  if (ARTICLE.test(words[0])) return null;
+  while (words.length && LABEL_WORD.test(words[0])) words.shift();
+  return playerName(words.join(" "), teams);
+};
+
+/**
+ * Reads one goal event; returns null for moments that are not goals, including
+ * goals the description says were ruled out. `teams` keeps club names out of the
+ * scorer and assist.
+ */
+export const toGoalEvent = (moment: ApiKeyMoment, teams?: MatchTeams | null): GoalEvent | null => {
+  const type = eventType(moment.event);
+  if (!GOAL_TYPES.has(type) || NOT_COUNTED.test(moment.description || "")) return null;
+
+  const ownGoal = type === "OWN_GOAL" || OWN_GOAL.test(moment.description || "");
+  const penalty = type.startsWith("PENALTY_") || (!ownGoal && PENALTY.test(moment.description || ""));
+  // "Goal! Saka..." / "Penalty: Palmer...": the label says nothing about who scored.
+  const description = (moment.description || "").replace(/^(goal|gol+|penalty|own goal)\s*[!:.-]+\s*/i, "").trim();
+
+  const scorer =
+    cleanName(moment.player) ??
+    leadingPlayer(description, teams) ??
+    playerName(description.match(SCORER_AFTER)?.[1], teams);
+  const assistText = description.slice(scorer && description.startsWith(scorer) ? scorer.length : 0);
+  const assist =
+    cleanName(moment.assist) ??
+    (ownGoal || penalty
+      ? null
+      : playerName(assistText.match(ASSIST_POSSESSIVE)?.[1], teams) ?? playerName(assistText.match(ASSIST_AFTER)?.[1], teams));
+
+  return {
+    minute: moment.minute ?? "",
+    minuteValue: parseMinute(moment.minute),
+    side: teamSide(moment.team),
+    scorer,
+    assist: assist && assist !== scorer ? assist : null,
+    ownGoal,
+    penalty,
+  };
+};
+
+export const goalEvents = (moments: ApiKeyMoment[] = [], teams?: MatchTeams | null): GoalEvent[] =>
+  moments.map((moment) => toGoalEvent(moment, teams)).filter((goal): goal is GoalEvent => goal !== null);
@@ -0,0 +1,52 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { getAnalysis, saveAnalysis, sweepAnalyses } from "./analysisStore";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe("sweepAnalyses", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "analyses-"));
+    vi.stubEnv("ANALYSIS_STORE_DIR", dir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const save = async (ageDays: number) => {
+    const record = await saveAnalysis({ query: "Arsenal vs Chelsea", response: { success: true, summary: "Arsenal won." } });
+    const modified = new Date(Date.now() - ageDays * DAY_MS);
+    await fs.utimes(path.join(dir, `${record.id}.json`), modified, modified);
+    return record.id;
+  };
+
+  it("deletes analyses past the retention period", async () => {
+    vi.stubEnv("ANALYSIS_STORE_TTL_DAYS", "7");
+    await save(8);
+    const recent = await save(1);
+    await sweepAnalyses();
+    expect((await fs.readdir(dir)).sort()).toEqual([`${recent}.json`]);
+  });
+
+  it("keeps only the newest analyses beyond the cap", async () => {
+    vi.stubEnv("ANALYSIS_STORE_MAX", "2");
+    const ids = [await save(3), await save(2), await save(1)];
+    await sweepAnalyses();
+    expect((await fs.readdir(dir)).sort()).toEqual([`${ids[1]}.json`, `${ids[2]}.json`].sort());
+  });
+
+  it("treats an expired record as missing before the sweep", async () => {
+    vi.stubEnv("ANALYSIS_STORE_TTL_DAYS", "7");
+    const id = await save(0);
+    const file = path.join(dir, `${id}.json`);
+    const record = JSON.parse(await fs.readFile(file, "utf8"));
+    await fs.writeFile(file, JSON.stringify({ ...record, createdAt: new Date(Date.now() - 8 * DAY_MS).toISOString() }));
+    expect(await getAnalysis(id)).toBeNull();
+  });
+});
@@ -0,0 +1,100 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { checkConsistency, type ConsistencyIssue } from "../consistency";
+import { apiResponseSchema } from "../schemas";
+import type { ApiResponse } from "../types";
+import { numberFromEnv } from "./backend";
+
+/** An analysis saved for sharing via `/analysis/[id]`. */
+export type StoredAnalysis = {
+  id: string;
+  query: string;
+  response: ApiResponse;
+  createdAt: string;
+  /** Contradictions found in the match data when it was shared; missing on older records. */
+  issues?: ConsistencyIssue[];
+};
+
+const ID_PATTERN = /^[A-Za-z0-9_-]{10}$/;
+
+const storeDir = () => process.env.ANALYSIS_STORE_DIR || path.join(process.cwd(), ".data", "analyses");
+
+// Ids are validated before touching the filesystem, so they cannot escape the store.
+const fileFor = (id: string) => path.join(storeDir(), `${id}.json`);
+
+export const isAnalysisId = (id: string) => ID_PATTERN.test(id);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Listing the store costs a stat per file, so saves sweep it at most this often.
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+const retention = () => ({
+  ttlMs: numberFromEnv("ANALYSIS_STORE_TTL_DAYS", 30) * DAY_MS,
+  maxCount: numberFromEnv("ANALYSIS_STORE_MAX", 10_000),
+});
+
+const isExpired = (createdAt: string, now = Date.now()) => now - Date.parse(createdAt) > retention().ttlMs;
+
+let lastSweep = 0;
+
+/**
+ * Deletes saved analyses older than `ANALYSIS_STORE_TTL_DAYS`, then the oldest
+ * ones beyond `ANALYSIS_STORE_MAX`, so sharing cannot fill the disk.
+ */
+export const sweepAnalyses = async (now = Date.now()) => {
+  const { ttlMs, maxCount } = retention();
+  let names: string[];
+  try {
+    names = (await fs.readdir(storeDir())).filter((name) => isAnalysisId(name.replace(/\.json$/, "")));
+  } catch {
+    return;
+  }
+  const files = await Promise.all(
+    names.map(async (name) => {
+      const file = path.join(storeDir(), name);
+      const stats = await fs.stat(file).catch(() => null);
+      return { file, modified: stats?.mtimeMs ?? 0 };
+    }),
+  );
+  files.sort((a, b) => b.modified - a.modified);
+  const stale = files.filter(({ modified }, index) => index >= maxCount || now - modified > ttlMs);
+  await Promise.all(stale.map(({ file }) => fs.unlink(file).catch(() => {})));
+};
+
+export const saveAnalysis = async ({ query, response }: { query: string; response: ApiResponse }) => {
+  if (Date.now() - lastSweep > SWEEP_INTERVAL_MS) {
+    lastSweep = Date.now();
+    await sweepAnalyses();
+  }
+  const record: StoredAnalysis = {
+    id: randomBytes(8).toString("base64url").slice(0, 10),
+    query,
+    response,
+    createdAt: new Date().toISOString(),
+    issues: checkConsistency(response.match_metadata),
+  };
+  await fs.mkdir(storeDir(), { recursive: true });
+  await fs.writeFile(fileFor(record.id), JSON.stringify(record), { flag: "wx" });
+  return record;
+};
+
+export const getAnalysis = async (id: string): Promise<StoredAnalysis | null> => {
+  if (!isAnalysisId(id)) return null;
+  let raw: string;
+  try {
+    raw = await fs.readFile(fileFor(id), "utf8");
+  } catch {
+    return null;
+  }
+  try {
+    const record = JSON.parse(raw) as StoredAnalysis;
+    // Past the retention period even if no sweep has deleted it yet.
+    if (isExpired(record.createdAt)) return null;
+    const response = apiResponseSchema(record.response);
+    if (!response.ok) return null;
+    return { ...record, response: response.value };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,80 @@
+import { MATCH_NOT_FOUND_PATTERN, MEMORY_PATTERN } from "../errors";
+import { formatEvent } from "../sse";
+
+export type BackendErrorCode =
+  | "bad_request"
+  | "rate_limited"
+  | "backend_unreachable"
+  | "backend_http"
+  | "backend_timeout"
+  | "backend_memory"
+  | "backend_unsuccessful"
+  | "match_not_found"
+  | "stream_interrupted";
+
+export type BackendErrorPayload = {
+  code: BackendErrorCode;
+  message: string;
+  request_id: string;
+  status?: number;
+  retry_after?: number;
+};
+
+/** A positive number from the environment, or `fallback` when unset or invalid. */
+export const numberFromEnv = (name: string, fallback: number) => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+/** Server-only settings; none of these reach the browser bundle. */
+export const backendConfig = () => ({
+  url: (process.env.ANALYSIS_API_URL || "http://localhost:8000").replace(/\/+$/, ""),
+  /** Replays recorded sessions from `app/api/mock` instead of calling the backend. */
+  mock: process.env.ANALYSIS_MOCK === "1",
+  connectTimeoutMs: numberFromEnv("ANALYSIS_CONNECT_TIMEOUT_MS", 30_000),
+  idleTimeoutMs: numberFromEnv("ANALYSIS_IDLE_TIMEOUT_MS", 90_000),
+  rateLimit: numberFromEnv("ANALYSIS_RATE_LIMIT", 10),
+  rateWindowMs: numberFromEnv("ANALYSIS_RATE_WINDOW_MS", 60_000),
+});
+
+export const errorFrame = (error: BackendErrorPayload) =>
+  formatEvent({ event: "error", data: JSON.stringify({ type: "error", data: error }) });
+
+export const errorResponse = (status: number, error: BackendErrorPayload, headers: Record<string, string> = {}) =>
+  Response.json(
+    { error },
+    { status, headers: { "X-Request-Id": error.request_id, ...headers } },
+  );
+
+/**
+ * Inspects a `data` payload from the backend. Unsuccessful results are turned into
+ * structured errors so the browser sees one consistent failure shape.
+ */
+export const classifyBackendFrame = (data: string, requestId: string): BackendErrorPayload | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== "object" || parsed === null) return null;
+  const frame = parsed as { type?: unknown; data?: { success?: unknown; error?: unknown } };
+  if (frame.type !== "result" || frame.data?.success !== false) return null;
+
+  const detail = typeof frame.data.error === "string" ? frame.data.error : "";
+  if (MEMORY_PATTERN.test(detail)) {
+    return {
+      code: "backend_memory",
+      message: "The analysis ran out of memory. Try a simpler query or try again later.",
+      request_id: requestId,
+    };
+  }
+  if (MATCH_NOT_FOUND_PATTERN.test(detail)) {
+    return { code: "match_not_found", message: detail, request_id: requestId };
+  }
+  return {
+    code: "backend_unsuccessful",
+    message: detail || "The analysis service could not complete this request.",
+    request_id: requestId,
+  };
+};
@@ -0,0 +1,119 @@
+import dns from "dns";
+import type { IncomingMessage } from "http";
+import https from "https";
+import { isIP, type LookupFunction } from "net";
+
+export type Favicon = { body: Uint8Array; contentType: string };
+
+const FETCH_TIMEOUT_MS = 3000;
+const MAX_BYTES = 100_000;
+const MAX_REDIRECTS = 3;
+const MAX_CACHED = 500;
+const HIT_TTL_MS = 24 * 60 * 60 * 1000;
+const MISS_TTL_MS = 60 * 60 * 1000;
+
+const DOMAIN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+const BLOCKED_SUFFIXES = [".local", ".localhost", ".internal", ".lan", ".home", ".corp"];
+
+/** Lower-cased hostname when `value` is a public-looking domain name; IP literals are refused. */
+export const normalizeDomain = (value?: string | null) => {
+  const domain = value?.trim().toLowerCase().replace(/\.$/, "");
+  if (!domain || isIP(domain) || !DOMAIN.test(domain)) return null;
+  if (BLOCKED_SUFFIXES.some((suffix) => domain.endsWith(suffix))) return null;
+  return domain;
+};
+
+const isPrivateAddress = (address: string) => {
+  if (isIP(address) === 4) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+  const ip = address.toLowerCase();
+  if (ip.startsWith("::ffff:")) return isPrivateAddress(ip.slice(7));
+  return ip === "::" || ip === "::1" || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip);
+};
+
+// The proxy fetches on behalf of visitors, so it must never reach the server's own network.
+// The check runs inside the connection's own lookup: resolving once to check and again
+// to connect would let a rebinding DNS server answer differently the second time.
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (!addresses.length || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: "EPRIVATE" }), "");
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const get = (url: URL) =>
+  new Promise<IncomingMessage>((resolve, reject) => {
+    const request = https.get(url, {
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      headers: { Accept: "image/*" },
+    });
+    request.on("response", resolve).on("error", reject);
+  });
+
+const readLimited = async (response: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    size += chunk.byteLength;
+    if (size > MAX_BYTES) {
+      response.destroy();
+      return null;
+    }
+    chunks.push(chunk);
+  }
+  return new Uint8Array(Buffer.concat(chunks, size));
+};
+
+const download = async (domain: string): Promise<Favicon | null> => {
+  let url = new URL(`https://${domain}/favicon.ico`);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (url.protocol !== "https:" || !normalizeDomain(url.hostname)) return null;
+    const response = await get(url);
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      url = new URL(location, url);
+      continue;
+    }
+    const contentType = response.headers["content-type"]?.split(";")[0].trim() ?? "";
+    if (status < 200 || status >= 300 || !contentType.startsWith("image/")) {
+      response.destroy();
+      return null;
+    }
+    const body = await readLimited(response);
+    return body ? { body, contentType } : null;
+  }
+  return null;
+};
+
+const cache = new Map<string, { favicon: Favicon | null; expires: number }>();
+
+/** The site's favicon, fetched once and kept in memory; null when it cannot be had safely. */
+export const getFavicon = async (domain: string, now = Date.now()): Promise<Favicon | null> => {
+  const cached = cache.get(domain);
+  if (cached && cached.expires > now) return cached.favicon;
+
+  let favicon: Favicon | null = null;
+  try {
+    favicon = await download(domain);
+  } catch {
+    favicon = null;
+  }
+  if (cache.size >= MAX_CACHED) cache.delete(cache.keys().next().value!);
+  cache.set(domain, { favicon, expires: now + (favicon ? HIT_TTL_MS : MISS_TTL_MS) });
+  return favicon;
+};
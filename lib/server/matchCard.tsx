@@ -0,0 +1,100 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ImageResponse } from "next/og";
+import { findTeam, teamInitials } from "../teams";
+import { plainSummary } from "../share";
+import type { StoredAnalysis } from "./analysisStore";
+
+export const MATCH_CARD_SIZE = { width: 1200, height: 630 };
+
+// Satori cannot fetch relative URLs, so crests from public/ are inlined as data URLs.
+// (Emoji are avoided on the card for the same reason: they are fetched from a CDN.)
+const crestDataUrl = async (logo?: string) => {
+  if (!logo) return null;
+  try {
+    const file = await fs.readFile(path.join(process.cwd(), "public", logo));
+    return `data:image/png;base64,${file.toString("base64")}`;
+  } catch {
+    return null;
+  }
+};
+
+const Crest = async ({ name }: { name?: string }) => {
+  const team = findTeam(name);
+  const src = await crestDataUrl(team?.logo);
+  const primary = team?.colors.primary ?? "#334155";
+  return (
+    <div style={{ display: "flex", flexDirection: "column", alignItems: "center", width: 340, gap: 20 }}>
+      {src ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={src} alt="" width={160} height={160} style={{ objectFit: "contain" }} />
+      ) : (
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            width: 160,
+            height: 160,
+            borderRadius: 80,
+            background: primary,
+            color: team?.colors.secondary ?? "#ffffff",
+            fontSize: 64,
+            fontWeight: 700,
+          }}
+        >
+          {teamInitials(name)}
+        </div>
+      )}
+      <div style={{ display: "flex", fontSize: 40, fontWeight: 700, textAlign: "center" }}>{name || "TBD"}</div>
+      <div style={{ display: "flex", width: 120, height: 6, borderRadius: 3, background: primary }} />
+    </div>
+  );
+};
+
+/** PNG "match card" built from the score banner data; used for downloads and as the OG image. */
+export const renderMatchCard = async ({ query, response }: Pick<StoredAnalysis, "query" | "response">) => {
+  const meta = response.match_metadata;
+  const hasTeams = Boolean(meta?.home_team && meta?.away_team);
+  const score = meta?.score?.trim() && meta.score.trim() !== "–" ? meta.score.trim() : "vs";
+  const summary = plainSummary(response, 160);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          display: "flex",
+          flexDirection: "column",
+          width: "100%",
+          height: "100%",
+          padding: "48px 64px",
+          background: "linear-gradient(135deg, #0c0e14 0%, #1a1b26 60%, #312e81 100%)",
+          color: "#ffffff",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", fontSize: 26, color: "rgba(255,255,255,0.6)" }}>
+          <span>{meta?.competition || "Soccer match"}</span>
+          <span>{meta?.match_date || ""}</span>
+        </div>
+
+        {hasTeams ? (
+          <div style={{ display: "flex", flex: 1, alignItems: "center", justifyContent: "space-between" }}>
+            {await Crest({ name: meta?.home_team })}
+            <div style={{ display: "flex", fontSize: 120, fontWeight: 800, letterSpacing: -4 }}>{score}</div>
+            {await Crest({ name: meta?.away_team })}
+          </div>
+        ) : (
+          <div style={{ display: "flex", flex: 1, alignItems: "center", fontSize: 56, fontWeight: 700 }}>{query}</div>
+        )}
+
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "flex-end", gap: 48 }}>
+          <div style={{ display: "flex", flex: 1, fontSize: 24, lineHeight: 1.4, color: "rgba(255,255,255,0.75)" }}>
+            {summary}
+          </div>
+          <div style={{ display: "flex", fontSize: 24, fontWeight: 600, color: "#a5b4fc" }}>Soccer mind</div>
+        </div>
+      </div>
+    ),
+    MATCH_CARD_SIZE,
+  );
+};
@@ -0,0 +1,23 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { clientIp } from "./rateLimit";
+
+const request = (headers: Record<string, string>) => new Request("http://localhost/api", { headers });
+
+describe("clientIp", () => {
+  afterEach(() => vi.unstubAllEnvs());
+
+  const cases: [string | undefined, Record<string, string>, string][] = [
+    [undefined, { "x-forwarded-for": "203.0.113.9" }, "203.0.113.9"],
+    [undefined, { "x-forwarded-for": "1.2.3.4, 203.0.113.9" }, "203.0.113.9"],
+    ["2", { "x-forwarded-for": "1.2.3.4, 203.0.113.9, 10.0.0.2" }, "203.0.113.9"],
+    ["2", { "x-forwarded-for": "203.0.113.9" }, "203.0.113.9"],
+    [undefined, { "x-real-ip": "203.0.113.9" }, "203.0.113.9"],
+    ["0", { "x-forwarded-for": "203.0.113.9", "x-real-ip": "203.0.113.9" }, "unknown"],
+    [undefined, {}, "unknown"],
+  ];
+
+  it.each(cases)("with TRUSTED_PROXY_COUNT=%s reads %j", (proxies, headers, ip) => {
+    if (proxies !== undefined) vi.stubEnv("TRUSTED_PROXY_COUNT", proxies);
+    expect(clientIp(request(headers))).toBe(ip);
+  });
+});
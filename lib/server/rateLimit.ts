@@ -0,0 +1,55 @@
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number;
+};
+
+// Bounds memory when many distinct clients hit a long-lived server process.
+const MAX_TRACKED_KEYS = 10_000;
+
+/** Sliding-window limiter kept in process memory, keyed by client (e.g. IP). */
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }) => {
+  const hits = new Map<string, number[]>();
+
+  const prune = (now: number) => {
+    for (const [key, times] of hits) {
+      if (!times.length || now - times[times.length - 1] >= windowMs) hits.delete(key);
+    }
+  };
+
+  const check = (key: string, now = Date.now()): RateLimitResult => {
+    if (hits.size > MAX_TRACKED_KEYS) prune(now);
+    const recent = (hits.get(key) ?? []).filter((time) => now - time < windowMs);
+    if (recent.length >= limit) {
+      hits.set(key, recent);
+      return { allowed: false, remaining: 0, retryAfterMs: windowMs - (now - recent[0]) };
+    }
+    recent.push(now);
+    hits.set(key, recent);
+    return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 };
+  };
+
+  return { check };
+};
+
+const trustedProxies = () => {
+  const value = Number(process.env.TRUSTED_PROXY_COUNT ?? 1);
+  return Number.isInteger(value) && value >= 0 ? value : 1;
+};
+
+/**
+ * The client IP to rate limit by. Each proxy appends the address it received the
+ * request from to `x-forwarded-for`, so with `TRUSTED_PROXY_COUNT` proxies in front
+ * of the app the client is that many entries from the end; anything before it was
+ * sent by the client and cannot be trusted. With no trusted proxy the headers are
+ * ignored and all clients share one limit.
+ */
+export const clientIp = (request: Request) => {
+  const proxies = trustedProxies();
+  if (!proxies) return "unknown";
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  return hops[Math.max(0, hops.length - proxies)] || request.headers.get("x-real-ip")?.trim() || "unknown";
+};
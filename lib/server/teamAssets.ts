@@ -0,0 +1,26 @@
+import { existsSync } from "fs";
+import path from "path";
+import { normalizeTeam, TEAMS } from "../teams";
+
+/** Registry problems that would show up as broken crests or ambiguous matches. */
+export const teamRegistryProblems = (publicDir = path.join(process.cwd(), "public")) => {
+  const problems: string[] = [];
+
+  for (const team of TEAMS) {
+    if (team.logo && !existsSync(path.join(publicDir, team.logo))) {
+      problems.push(`${team.id}: logo ${team.logo} does not exist in public/`);
+    }
+  }
+
+  const owners = new Map<string, string>();
+  for (const team of TEAMS) {
+    for (const alias of team.aliases) {
+      const key = normalizeTeam(alias);
+      const owner = owners.get(key);
+      if (owner && owner !== team.id) problems.push(`alias "${alias}" is claimed by both ${owner} and ${team.id}`);
+      owners.set(key, team.id);
+    }
+  }
+
+  return problems;
+};
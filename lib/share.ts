@@ -0,0 +1,26 @@
+import type { ApiMatchMetadata, ApiResponse } from "./types";
+import { cleanText } from "./text";
+
+/** "Arsenal 2-1 Chelsea", or "Arsenal vs Chelsea" without a score; null when teams are unknown. */
+export const matchHeadline = (meta?: ApiMatchMetadata | null) => {
+  if (!meta?.home_team || !meta?.away_team) return null;
+  const score = meta.score?.trim();
+  return `${meta.home_team} ${score && score !== "–" ? score : "vs"} ${meta.away_team}`;
+};
+
+/** Markdown summary flattened to a single line of plain text for previews. */
+export const plainSummary = (response: ApiResponse, maxLength = 200) => {
+  const text = cleanText(response.summary || response.match_metadata?.match_summary || "")
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`>#~]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
+
+export const analysisTitle = (response: ApiResponse, query: string) => {
+  const headline = matchHeadline(response.match_metadata);
+  const competition = response.match_metadata?.competition;
+  if (headline) return competition ? `${headline} · ${competition}` : headline;
+  return query;
+};
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { collectSources } from "./sources";
+
+describe("collectSources", () => {
+  const cases: [string, string][] = [
+    ["https://www.bbc.co.uk/sport/football/arsenal-chelsea-report", "Arsenal chelsea report"],
+    ["https://example.com/news/caf%C3%A9-talk.html", "Café talk"],
+    ["https://example.com/news/100%-win", "100% win"],
+    ["https://example.com/news/12345", "example.com"],
+  ];
+
+  it.each(cases)("titles %s", (url, title) => {
+    expect(collectSources({ success: true, sources: [{ url }] })[0].title).toBe(title);
+  });
+});
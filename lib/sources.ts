@@ -0,0 +1,92 @@
+import { sourceBlockUrls } from "./text";
+import type { ApiResponse, ApiSource } from "./types";
+import { displayHost, safeHttpUrl } from "./url";
+
+/** A numbered entry of the sources panel; `[n]` citations in the text point at `number`. */
+export type SourceEntry = {
+  number: number;
+  /** Null when the backend sent something that is not an http(s) URL. */
+  url: string | null;
+  title: string;
+  domain: string | null;
+  publisher: string | null;
+  accessedAt: string | null;
+};
+
+/** "/sport/football/arsenal-chelsea-report" → "Arsenal chelsea report". */
+const titleFromPath = (url: URL) => {
+  const slug = url.pathname
+    .split("/")
+    .filter(Boolean)
+    .pop()
+    ?.replace(/\.[a-z]+$/i, "")
+    .replace(/[-_+]+/g, " ")
+    .trim();
+  if (!slug || /^\d+$/.test(slug)) return null;
+  let text = slug;
+  try {
+    text = decodeURIComponent(slug);
+  } catch {
+    // A stray "%" ("100%-win") is not an escape; the slug is shown as it is.
+  }
+  return text.charAt(0).toUpperCase() + text.slice(1);
+};
+
+const toEntry = (source: ApiSource, number: number): SourceEntry => {
+  const url = safeHttpUrl(source.url);
+  const domain = url ? displayHost(url) : null;
+  return {
+    number,
+    url: url?.toString() ?? null,
+    title: source.title?.trim() || (url && titleFromPath(url)) || domain || source.url?.trim() || "Untitled source",
+    domain,
+    publisher: source.publisher?.trim() || null,
+    accessedAt: source.accessed_at ?? null,
+  };
+};
+
+/**
+ * Numbered sources for an answer: the `sources` field first, then any URLs the
+ * text lists in a trailing "Sources:" block that were not already there. Entries
+ * that are not valid URLs are kept (so numbering matches the text) but not linked.
+ */
+export const collectSources = (response: ApiResponse): SourceEntry[] => {
+  const seen = new Set<string>();
+  const sources: ApiSource[] = [];
+  const add = (source: ApiSource) => {
+    const key = safeHttpUrl(source.url)?.toString() ?? source.url ?? source.title ?? "";
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    sources.push(source);
+  };
+
+  for (const source of response.sources ?? []) add(typeof source === "string" ? { url: source } : source);
+  for (const text of [response.summary, response.game_analysis?.deep_analysis]) {
+    for (const url of text ? sourceBlockUrls(text) : []) add({ url });
+  }
+  return sources.map((source, i) => toEntry(source, i + 1));
+};
+
+/** Element id of source `n`; the scope keeps several answers on one page apart. */
+export const citationAnchor = (scope: string, n: number) => `${scope}-source-${n}`;
+
+// "[1]", "[2, 3]", "[1-3]", "[^4]"; not "[1](link)" which is already a markdown link.
+const CITATION = /\[\^?(\d{1,3}(?:\s*[,–-]\s*\d{1,3})*)\](?!\()/g;
+
+const citedNumbers = (list: string) =>
+  list.split(/\s*,\s*/).flatMap((part) => {
+    const [from, to] = part.split(/\s*[–-]\s*/).map(Number);
+    if (!to || to < from || to - from > 20) return [from];
+    return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  });
+
+/**
+ * Rewrites `[n]` citation markers as markdown links to `href(n)` so the renderer
+ * can show them as footnotes. Numbers without a matching source stay as text.
+ */
+export const linkCitations = (markdown: string, count: number, href: (n: number) => string) =>
+  markdown.replace(CITATION, (marker, list: string) => {
+    const numbers = citedNumbers(list);
+    if (!numbers.every((n) => n >= 1 && n <= count)) return marker;
+    return numbers.map((n) => `[${n}](${href(n)})`).join("");
+  });
@@ -0,0 +1,140 @@
+/**
+ * Incremental Server-Sent Events decoder following the WHATWG HTML "event stream"
+ * interpretation rules: CR, LF and CRLF line endings, comments, `event`, `data`,
+ * `id` and `retry` fields, and multi-line `data`.
+ */
+export type SSEMessage = {
+  event: string;
+  data: string;
+  lastEventId: string;
+};
+
+export class SSEDecoder {
+  /** Last `id` seen; persists across messages and should be sent back on reconnect. */
+  lastEventId = "";
+  /** Reconnection delay requested by the server via `retry`, in milliseconds. */
+  retry: number | null = null;
+
+  private buffer = "";
+  private started = false;
+  private pendingCR = false;
+  private eventType = "";
+  private data: string[] = [];
+
+  /** Feeds decoded text and returns every message completed by it. */
+  feed(chunk: string): SSEMessage[] {
+    let text = chunk;
+    if (!this.started && text.length) {
+      this.started = true;
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+    }
+    // A CR at the end of the previous chunk already ended its line; skip the LF half of a split CRLF.
+    if (this.pendingCR && text.startsWith("\n")) text = text.slice(1);
+    this.pendingCR = false;
+
+    this.buffer += text;
+    const messages: SSEMessage[] = [];
+    let start = 0;
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== "\n" && char !== "\r") continue;
+      const message = this.processLine(this.buffer.slice(start, i));
+      if (message) messages.push(message);
+      if (char === "\r") {
+        if (i + 1 === this.buffer.length) this.pendingCR = true;
+        else if (this.buffer[i + 1] === "\n") i++;
+      }
+      start = i + 1;
+    }
+    this.buffer = this.buffer.slice(start);
+    return messages;
+  }
+
+  /**
+   * Ends the stream. Per the spec a trailing event without its terminating blank
+   * line is incomplete and dropped.
+   */
+  end() {
+    this.buffer = "";
+    this.eventType = "";
+    this.data = [];
+    this.pendingCR = false;
+    this.started = false;
+  }
+
+  private processLine(line: string): SSEMessage | null {
+    if (line === "") return this.dispatch();
+    if (line.startsWith(":")) return null;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    switch (field) {
+      case "event":
+        this.eventType = value;
+        break;
+      case "data":
+        this.data.push(value);
+        break;
+      case "id":
+        if (!value.includes("\0")) this.lastEventId = value;
+        break;
+      case "retry":
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+      default:
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SSEMessage | null {
+    const eventType = this.eventType;
+    const data = this.data;
+    this.eventType = "";
+    this.data = [];
+    if (!data.length) return null;
+    return {
+      event: eventType || "message",
+      data: data.join("\n"),
+      lastEventId: this.lastEventId,
+    };
+  }
+}
+
+/** Decodes a byte stream into SSE messages, using `decoder` to carry `id`/`retry` state. */
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>,
+  decoder: SSEDecoder = new SSEDecoder(),
+): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const text = new TextDecoder();
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        finished = true;
+        yield* decoder.feed(text.decode());
+        decoder.end();
+        return;
+      }
+      yield* decoder.feed(text.decode(value, { stream: true }));
+    }
+  } finally {
+    // Stop the underlying connection when the consumer bails out early.
+    if (!finished) reader.cancel().catch(() => {});
+  }
+}
+
+/** Serialises one message in wire format, splitting multi-line data across `data:` fields. */
+export const formatEvent = (message: { data: string; event?: string; id?: string; retry?: number }) => {
+  let out = "";
+  if (message.event && message.event !== "message") out += `event: ${message.event}\n`;
+  if (message.id !== undefined) out += `id: ${message.id}\n`;
+  if (message.retry !== undefined) out += `retry: ${message.retry}\n`;
+  for (const line of message.data.split(/\r\n|\r|\n/)) out += `data: ${line}\n`;
+  return `${out}\n`;
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { toStandingRows, toZone, type Zone } from "./standings";
+
+describe("toZone", () => {
+  const cases: [string | undefined, Zone | null][] = [
+    ["champions_league", "champions_league"],
+    ["UCL", "champions_league"],
+    ["UEFA Champions League", "champions_league"],
+    ["Champions League qualification", "champions_league"],
+    ["champions-league-spots", "champions_league"],
+    ["europa league", "europa_league"],
+    ["Europa League qualifiers", "europa_league"],
+    ["UECL", "conference_league"],
+    ["conference league playoff", null],
+    ["promoted", "promotion"],
+    ["Relegation play-off", "playoff"],
+    ["play-offs", "playoff"],
+    ["relegated", "relegation"],
+    ["Champions League winners", null],
+    ["clubs", null],
+    ["", null],
+    [undefined, null],
+  ];
+
+  it.each(cases)("reads %j", (value, zone) => {
+    expect(toZone(value)).toBe(zone);
+  });
+});
+
+describe("toStandingRows default zones", () => {
+  const table = Array.from({ length: 18 }, (_, i) => ({ position: i + 1, team: `Club ${i + 1}` }));
+  const zones = (competition: string) => toStandingRows({ competition, table }).map((row) => row.zone);
+
+  const cases: [string, boolean][] = [
+    ["Premier League", true],
+    ["Premier League 2024/25", true],
+    ["LaLiga", true],
+    ["Bundesliga", true],
+    ["2. Bundesliga", false],
+    ["Ukrainian Premier League", false],
+    ["Serie A Femminile", false],
+    ["Eredivisie", false],
+  ];
+
+  it.each(cases)("%s gets the usual places: %s", (competition, expected) => {
+    expect(zones(competition)[0]).toBe(expected ? "champions_league" : null);
+    expect(zones(competition).at(-1)).toBe(expected ? "relegation" : null);
+  });
+});
@@ -0,0 +1,219 @@
+import { findTeam, normalizeTeam, type Team } from "./teams";
+import type { ApiFixture, ApiStandingRow, ApiStandings } from "./types";
+
+export type FormResult = "W" | "D" | "L";
+
+export type Zone =
+  | "champions_league"
+  | "europa_league"
+  | "conference_league"
+  | "promotion"
+  | "playoff"
+  | "relegation";
+
+export const ZONE_LABELS: Record<Zone, string> = {
+  champions_league: "Champions League",
+  europa_league: "Europa League",
+  conference_league: "Conference League",
+  promotion: "Promotion",
+  playoff: "Play-off",
+  relegation: "Relegation",
+};
+
+const ZONE_ALIASES: [RegExp, Zone][] = [
+  [/^(ucl|cl|champions ?league|uefa champions league)$/, "champions_league"],
+  [/^(uel|el|europa ?league|uefa europa league|europa)$/, "europa_league"],
+  [/^(uecl|ecl|conference ?league|uefa conference league|conference)$/, "conference_league"],
+  [/^(promotion|promoted|automatic promotion)$/, "promotion"],
+  [/^(play ?offs?|playoff|relegation play ?off|promotion play ?off)$/, "playoff"],
+  [/^(relegation|relegated|drop|bottom)$/, "relegation"],
+];
+
+// "Champions League qualification", "europa_league_spots": the suffix adds nothing.
+const ZONE_SUFFIX = /\s+(qualification|qualifiers|qualifying|places?|spots?)$/;
+
+export const toZone = (value?: string): Zone | null => {
+  const text = value?.trim().toLowerCase().replace(/[_-]+/g, " ").replace(/\s+/g, " ").replace(ZONE_SUFFIX, "") ?? "";
+  return ZONE_ALIASES.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+};
+
+/**
+ * Usual places per zone in the big leagues, used when the backend sends a table
+ * without zones. Cup winners and coefficient spots shift these from season to
+ * season, so explicit `zone` values always win.
+ */
+const DEFAULT_ZONES: { names: string[]; top: Zone[]; bottom: Zone[] }[] = [
+  {
+    names: ["premier league", "english premier league", "epl", "la liga", "laliga", "serie a"],
+    top: ["champions_league", "champions_league", "champions_league", "champions_league", "europa_league", "conference_league"],
+    bottom: ["relegation", "relegation", "relegation"],
+  },
+  {
+    names: ["bundesliga", "ligue 1"],
+    top: ["champions_league", "champions_league", "champions_league", "champions_league", "europa_league", "conference_league"],
+    bottom: ["playoff", "relegation", "relegation"],
+  },
+];
+
+// "Premier League 2024/25" is still the Premier League.
+const SEASON_SUFFIX = /\s+\d{4}(\s+\d{2,4})?$/;
+
+export type StandingRow = {
+  position: number;
+  name: string;
+  team: Team | null;
+  played: number | null;
+  won: number | null;
+  drawn: number | null;
+  lost: number | null;
+  goalsFor: number | null;
+  goalsAgainst: number | null;
+  goalDifference: number | null;
+  points: number | null;
+  form: FormResult[];
+  zone: Zone | null;
+};
+
+const FORM_LETTERS: Record<string, FormResult> = { W: "W", D: "D", L: "L", T: "D" };
+
+/** "WWDLW", "W-W-D", ["W", "L"] → results oldest first, at most the last `limit`. */
+export const parseForm = (form?: string | string[], limit = 5): FormResult[] => {
+  const letters = Array.isArray(form) ? form.map((entry) => entry.trim().charAt(0)) : [...(form ?? "")];
+  return letters
+    .map((letter) => FORM_LETTERS[letter.toUpperCase()])
+    .filter((result): result is FormResult => result !== undefined)
+    .slice(-limit);
+};
+
+const formPoints = (form: FormResult[]) => form.reduce((sum, result) => sum + (result === "W" ? 3 : result === "D" ? 1 : 0), 0);
+
+const value = (n?: number) => (typeof n === "number" ? n : null);
+
+/** Rows in table order with goal difference filled in and zones from the payload or the league's usual places. */
+export const toStandingRows = (standings?: ApiStandings | null): StandingRow[] => {
+  const table = (standings?.table ?? []).filter((row: ApiStandingRow) => row.team);
+  const ordered = table
+    .map((row, index) => ({ row, position: value(row.position) ?? index + 1 }))
+    .sort((a, b) => a.position - b.position);
+  // Exact names only: "2. Bundesliga" or "Egyptian Premier League" have other places.
+  const competition = normalizeTeam(standings?.competition).replace(SEASON_SUFFIX, "");
+  const defaults = DEFAULT_ZONES.find((zones) => zones.names.includes(competition));
+  const explicitZones = table.some((row) => row.zone);
+
+  return ordered.map(({ row, position }, index): StandingRow => {
+    const goalsFor = value(row.goals_for);
+    const goalsAgainst = value(row.goals_against);
+    const fromBottom = ordered.length - 1 - index;
+    const zone = explicitZones
+      ? toZone(row.zone)
+      : defaults && ordered.length >= 10
+        ? defaults.top[index] ?? defaults.bottom[defaults.bottom.length - 1 - fromBottom] ?? null
+        : null;
+    return {
+      position,
+      name: row.team as string,
+      team: findTeam(row.team),
+      played: value(row.played),
+      won: value(row.won),
+      drawn: value(row.drawn),
+      lost: value(row.lost),
+      goalsFor,
+      goalsAgainst,
+      goalDifference: value(row.goal_difference) ?? (goalsFor !== null && goalsAgainst !== null ? goalsFor - goalsAgainst : null),
+      points: value(row.points),
+      form: parseForm(row.form),
+      zone,
+    };
+  });
+};
+
+export type StandingSortKey =
+  | "position"
+  | "name"
+  | "played"
+  | "won"
+  | "drawn"
+  | "lost"
+  | "goalsFor"
+  | "goalsAgainst"
+  | "goalDifference"
+  | "points"
+  | "form";
+
+export type SortDirection = "asc" | "desc";
+
+/** The direction a column sorts in on first click: best first, so points high-to-low but position 1 first. */
+export const defaultDirection = (key: StandingSortKey): SortDirection =>
+  key === "position" || key === "name" || key === "lost" || key === "goalsAgainst" ? "asc" : "desc";
+
+/** Sorted copy of `rows`; missing values go last, ties keep table order. */
+export const sortStandings = (rows: StandingRow[], key: StandingSortKey, direction: SortDirection) => {
+  const sign = direction === "asc" ? 1 : -1;
+  const read = (row: StandingRow) => (key === "form" ? (row.form.length ? formPoints(row.form) : null) : row[key]);
+  return [...rows].sort((a, b) => {
+    const x = read(a);
+    const y = read(b);
+    if (x === null || y === null) return x === y ? a.position - b.position : x === null ? 1 : -1;
+    const order = typeof x === "string" ? x.localeCompare(y as string) : x - (y as number);
+    return order * sign || a.position - b.position;
+  });
+};
+
+export type FixtureRow = {
+  home: string;
+  away: string;
+  homeTeam: Team | null;
+  awayTeam: Team | null;
+  date: Date | null;
+  score: string | null;
+  status: string | null;
+  competition: string | null;
+  round: string | null;
+  venue: string | null;
+};
+
+const parseDate = (text?: string) => {
+  if (!text) return null;
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+export const toFixtureRows = (fixtures?: ApiFixture[] | null): FixtureRow[] =>
+  (fixtures ?? [])
+    .filter((fixture) => fixture.home_team && fixture.away_team)
+    .map((fixture) => ({
+      home: fixture.home_team as string,
+      away: fixture.away_team as string,
+      homeTeam: findTeam(fixture.home_team),
+      awayTeam: findTeam(fixture.away_team),
+      date: parseDate(fixture.date),
+      score: fixture.score?.trim() || null,
+      status: fixture.status?.trim() || null,
+      competition: fixture.competition?.trim() || null,
+      round: fixture.round?.trim() || null,
+      venue: fixture.venue?.trim() || null,
+    }));
+
+export type FixtureSortKey = "date" | "home" | "away" | "competition";
+
+export const sortFixtures = (rows: FixtureRow[], key: FixtureSortKey, direction: SortDirection) => {
+  const sign = direction === "asc" ? 1 : -1;
+  const read = (row: FixtureRow) =>
+    key === "date" ? row.date?.getTime() ?? null : key === "competition" ? row.competition : normalizeTeam(row[key]);
+  return [...rows].sort((a, b) => {
+    const x = read(a);
+    const y = read(b);
+    if (x === null || y === null) return x === y ? 0 : x === null ? 1 : -1;
+    return (typeof x === "number" ? x - (y as number) : x.localeCompare(y as string)) * sign;
+  });
+};
+
+/** The analysis question a fixture row asks when clicked, e.g. "Arsenal vs Chelsea on 16 March 2025". */
+export const fixtureQuery = (fixture: FixtureRow) => {
+  const home = fixture.homeTeam?.name ?? fixture.home;
+  const away = fixture.awayTeam?.name ?? fixture.away;
+  const date = fixture.date?.toLocaleDateString("en-GB", { day: "numeric", month: "long", year: "numeric", timeZone: "UTC" });
+  return [`${home} vs ${away}`, date && `on ${date}`, !date && fixture.competition && `in the ${fixture.competition}`]
+    .filter(Boolean)
+    .join(" ");
+};
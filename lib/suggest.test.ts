@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { suggestQueries, type SuggestionKind } from "./suggest";
+
+const labels = (text: string, recent: string[] = []) =>
+  Object.fromEntries(suggestQueries(text, recent).map((group) => [group.kind, group.items.map((item) => item.label)]));
+
+describe("suggestQueries", () => {
+  const cases: [string, string[], Partial<Record<SuggestionKind, string[]>>][] = [
+    ["", [], { template: ["TEAM vs OPPONENT on DATE", "Tactical breakdown of TEAM vs OPPONENT", "Key moments in TEAM vs OPPONENT"] }],
+    ["", ["Arsenal vs Chelsea", "arsenal vs chelsea", "Liverpool form"], { recent: ["Arsenal vs Chelsea", "Liverpool form"] }],
+    ["Arsenal vs Chel", [], { team: ["Chelsea"] }],
+    ["Liverpool in the Champ", [], { competition: ["Champions League", "Women's Champions League", "European Championship"] }],
+    ["Tactical", [], { template: ["Tactical breakdown of TEAM vs OPPONENT"] }],
+    ["Arsenal", [], { template: ["Arsenal vs OPPONENT on DATE", "Tactical breakdown of Arsenal vs OPPONENT", "Key moments in Arsenal vs OPPONENT"] }],
+    ["chelsea", ["Arsenal vs Chelsea", "Chelsea"], { recent: ["Arsenal vs Chelsea"] }],
+  ];
+
+  it.each(cases)("suggests for %j", (text, recent, expected) => {
+    expect(labels(text, recent)).toMatchObject(expected);
+  });
+
+  it("completes only the fragment being typed", () => {
+    const [teams] = suggestQueries("Arsenal vs Chel");
+    expect(teams.items[0].value).toBe("Arsenal vs Chelsea ");
+  });
+
+  it("offers nothing for an unknown word", () => {
+    expect(suggestQueries("zzzz")).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import { COMPETITIONS } from "./queryOptions";
+import { findTeam, normalizeTeam, searchTeams, type Team } from "./teams";
+
+export type SuggestionKind = "team" | "competition" | "template" | "recent";
+
+/** One autocomplete entry; `value` is the whole query text once it is accepted. */
+export type Suggestion = {
+  id: string;
+  kind: SuggestionKind;
+  label: string;
+  detail?: string;
+  value: string;
+  team?: Team;
+};
+
+export type SuggestionGroup = {
+  kind: SuggestionKind;
+  /** Set when several clubs answer to what was typed, e.g. "Several clubs match “inter”". */
+  note?: string;
+  items: Suggestion[];
+};
+
+/** Words in templates the user is expected to replace; accepting a template selects the first. */
+export const PLACEHOLDER = /\b(TEAM|OPPONENT|DATE|COMPETITION|SEASON)\b/;
+
+const TEMPLATES = [
+  "TEAM vs OPPONENT on DATE",
+  "Tactical breakdown of TEAM vs OPPONENT",
+  "Key moments in TEAM vs OPPONENT",
+  "Highlights of TEAM vs OPPONENT",
+  "TEAM vs OPPONENT in COMPETITION SEASON",
+  "How did TEAM play in their last match?",
+];
+
+const MAX_TEAMS = 5;
+const MAX_COMPETITIONS = 3;
+const MAX_TEMPLATES = 3;
+const MAX_RECENT = 3;
+
+// Words after which a new club or competition name usually starts.
+const SEPARATOR = /(?:^|\s)(?:vs\.?|v|versus|against|and|of|between|for|with|in|at|from)\s+|,\s*/gi;
+
+/**
+ * The fragment being typed: the text after the last "vs", "of", "in"... and,
+ * for a fragment that is a whole sentence, its last one to three words.
+ * Longest first, each with the offset where it starts.
+ */
+const tails = (text: string) => {
+  let start = 0;
+  for (const match of text.matchAll(SEPARATOR)) start = (match.index ?? 0) + match[0].length;
+  const fragment = text.slice(start);
+  const candidates: { start: number; text: string }[] = [];
+  if (fragment.trim()) candidates.push({ start, text: fragment });
+  const words = [...fragment.matchAll(/\S+/g)];
+  for (let count = Math.min(3, words.length - 1); count >= 1; count--) {
+    const from = start + (words[words.length - count].index ?? 0);
+    candidates.push({ start: from, text: text.slice(from) });
+  }
+  return candidates.filter((candidate) => normalizeTeam(candidate.text).length >= 2);
+};
+
+const complete = (text: string, start: number, replacement: string) => `${text.slice(0, start)}${replacement} `;
+
+const teamSuggestions = (text: string): SuggestionGroup | null => {
+  for (const tail of tails(text)) {
+    const matches = searchTeams(tail.text, MAX_TEAMS);
+    if (!matches.length) continue;
+    const items = matches
+      .map(({ team }): Suggestion => ({
+        id: `team:${team.id}`,
+        kind: "team",
+        label: team.name,
+        detail: `${team.league} · ${team.country}`,
+        value: complete(text, tail.start, team.name),
+        team,
+      }))
+      .filter((item) => item.value.trim() !== text.trim());
+    if (!items.length) return null;
+    // Clubs that all answer to the typed word need telling apart.
+    const needle = ` ${normalizeTeam(tail.text)} `;
+    const shared = matches.filter((match) => ` ${match.alias} `.includes(needle)).length > 1;
+    return { kind: "team", note: shared ? `Several clubs match “${tail.text.trim()}”` : undefined, items };
+  }
+  return null;
+};
+
+const competitionSuggestions = (text: string): SuggestionGroup | null => {
+  for (const tail of tails(text)) {
+    const needle = normalizeTeam(tail.text);
+    const items = COMPETITIONS.filter((competition) => {
+      const name = normalizeTeam(competition);
+      return name !== needle && (name.startsWith(needle) || name.split(" ").some((_, i, words) => words.slice(i).join(" ").startsWith(needle)));
+    })
+      .slice(0, MAX_COMPETITIONS)
+      .map((competition): Suggestion => ({
+        id: `competition:${competition}`,
+        kind: "competition",
+        label: competition,
+        value: complete(text, tail.start, competition),
+      }));
+    if (items.length) return { kind: "competition", items };
+  }
+  return null;
+};
+
+/** Templates that start with what was typed; a query that is just a club's full name fills in TEAM. */
+const templateSuggestions = (text: string): SuggestionGroup | null => {
+  const typed = normalizeTeam(text);
+  const match = typed ? findTeam(text) : null;
+  const team = match && normalizeTeam(match.name) === typed ? match : null;
+  const items = TEMPLATES.flatMap((template): Suggestion[] => {
+    const filled = team ? template.replace("TEAM", team.name) : template;
+    if (!team && typed && !normalizeTeam(template.replace(new RegExp(PLACEHOLDER, "g"), "")).startsWith(typed)) return [];
+    return [{ id: `template:${template}`, kind: "template", label: filled, value: filled }];
+  }).slice(0, MAX_TEMPLATES);
+  return items.length ? { kind: "template", items } : null;
+};
+
+const recentSuggestions = (text: string, recent: string[]): SuggestionGroup | null => {
+  const typed = text.trim().toLowerCase();
+  const seen = new Set<string>();
+  const items: Suggestion[] = [];
+  for (const query of recent) {
+    const key = query.trim().toLowerCase();
+    if (!key || seen.has(key) || key === typed || !key.includes(typed)) continue;
+    seen.add(key);
+    items.push({ id: `recent:${key}`, kind: "recent", label: query, value: query });
+    if (items.length === MAX_RECENT) break;
+  }
+  return items.length ? { kind: "recent", items } : null;
+};
+
+/**
+ * Autocomplete for the query box. Clubs and competitions complete the fragment
+ * being typed; templates and recent queries (newest first in `recent`) replace
+ * the whole text. An empty box offers templates and recent queries only.
+ */
+export const suggestQueries = (text: string, recent: string[] = []): SuggestionGroup[] => {
+  const groups = text.trim()
+    ? [teamSuggestions(text), competitionSuggestions(text), templateSuggestions(text), recentSuggestions(text, recent)]
+    : [recentSuggestions("", recent), templateSuggestions("")];
+  return groups.filter((group): group is SuggestionGroup => group !== null);
+};
@@ -0,0 +1,143 @@
+import type { ApiTacticalAnalysis } from "./types";
+
+export type TeamTactics = {
+  formation?: string;
+  pressing?: string;
+  possession?: string;
+  buildUp?: string;
+  defensiveShape?: string;
+  strengths: string[];
+  weaknesses: string[];
+};
+
+export type PossessionPhase = {
+  phase?: string;
+  minutes?: string;
+  team?: string;
+  possession?: string;
+  description?: string;
+};
+
+export type KeyBattle = {
+  homePlayer?: string;
+  awayPlayer?: string;
+  area?: string;
+  winner?: string;
+  description?: string;
+};
+
+export type TacticalAnalysis = {
+  home: TeamTactics;
+  away: TeamTactics;
+  pressing?: string;
+  phases: PossessionPhase[];
+  battles: KeyBattle[];
+  /** Keys the schema does not know about, rendered as a generic tree. */
+  extras: Record<string, unknown>;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) => {
+  if (typeof value === "number") return String(value);
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+};
+
+const textList = (value: unknown) => {
+  if (typeof value === "string") return value.trim() ? [value.trim()] : [];
+  if (!Array.isArray(value)) return [];
+  return value.map(text).filter((item): item is string => Boolean(item));
+};
+
+const records = (value: unknown) => (Array.isArray(value) ? value.filter(isRecord) : []);
+
+const readTeam = (raw: unknown, formation: unknown, pressing: unknown): TeamTactics => {
+  const team = isRecord(raw) ? raw : {};
+  return {
+    formation: text(team.formation) ?? text(formation),
+    pressing: text(team.pressing) ?? text(pressing),
+    possession: text(team.possession),
+    buildUp: text(team.build_up),
+    defensiveShape: text(team.defensive_shape),
+    strengths: textList(team.strengths),
+    weaknesses: textList(team.weaknesses),
+  };
+};
+
+// Every alias the normaliser reads; whatever is left over ends up in `extras`.
+const KNOWN_KEYS = new Set([
+  "formations",
+  "home_formation",
+  "away_formation",
+  "home",
+  "away",
+  "home_team",
+  "away_team",
+  "pressing",
+  "possession_phases",
+  "phases",
+  "key_battles",
+  "battles",
+]);
+
+export const parseTacticalAnalysis = (raw?: ApiTacticalAnalysis | null): TacticalAnalysis | null => {
+  if (!isRecord(raw) || Object.keys(raw).length === 0) return null;
+
+  const formations = isRecord(raw.formations) ? raw.formations : {};
+  const pressing = isRecord(raw.pressing) ? raw.pressing : {};
+
+  const phases = records(raw.possession_phases ?? raw.phases).map((phase) => ({
+    phase: text(phase.phase) ?? text(phase.name),
+    minutes: text(phase.minutes),
+    team: text(phase.team),
+    possession: text(phase.possession),
+    description: text(phase.description),
+  }));
+
+  const battles = records(raw.key_battles ?? raw.battles).map((battle) => {
+    const players = textList(battle.players);
+    return {
+      homePlayer: text(battle.home_player) ?? players[0],
+      awayPlayer: text(battle.away_player) ?? players[1],
+      area: text(battle.area),
+      winner: text(battle.winner),
+      description: text(battle.description),
+    };
+  });
+
+  const extras = Object.fromEntries(
+    Object.entries(raw).filter(([key, value]) => !KNOWN_KEYS.has(key) && value != null),
+  );
+  // Team keys that are plain strings (e.g. "home_team": "Arsenal") carry no tactics.
+  for (const key of ["home", "away", "home_team", "away_team"]) {
+    if (raw[key] != null && !isRecord(raw[key])) extras[key] = raw[key];
+  }
+
+  return {
+    home: readTeam(raw.home ?? raw.home_team, formations.home ?? raw.home_formation, pressing.home),
+    away: readTeam(raw.away ?? raw.away_team, formations.away ?? raw.away_formation, pressing.away),
+    pressing: text(raw.pressing),
+    phases,
+    battles,
+    extras,
+  };
+};
+
+/** "4-2-3-1" → [4, 2, 3, 1]; null unless the lines add up to ten outfield players. */
+export const parseFormation = (formation?: string) => {
+  const lines = formation?.match(/\d/g)?.map(Number);
+  if (!lines || lines.length < 2 || lines.length > 5) return null;
+  return lines.reduce((sum, n) => sum + n, 0) === 10 ? lines : null;
+};
+
+export const hasTeamTactics = (team: TeamTactics) =>
+  Boolean(
+    team.formation ||
+      team.pressing ||
+      team.possession ||
+      team.buildUp ||
+      team.defensiveShape ||
+      team.strengths.length ||
+      team.weaknesses.length,
+  );
@@ -0,0 +1,196 @@
+/** A club the UI knows how to present: canonical id, display names, colours and logo. */
+export type Team = {
+  id: string;
+  name: string;
+  shortName: string;
+  colors: { primary: string; secondary: string };
+  country: string;
+  league: string;
+  /** Alternative spellings; matching is case-, accent- and suffix-insensitive. */
+  aliases: string[];
+  /** Public path of the crest; omitted when we have no file for the club. */
+  logo?: string;
+};
+
+type TeamSeed = Omit<Team, "logo" | "colors"> & { colors: [string, string]; hasLogo?: boolean };
+
+const PL = { country: "England", league: "Premier League" };
+const LALIGA = { country: "Spain", league: "La Liga" };
+const SERIE_A = { country: "Italy", league: "Serie A" };
+const BUNDESLIGA = { country: "Germany", league: "Bundesliga" };
+
+const SEEDS: TeamSeed[] = [
+  { id: "arsenal", name: "Arsenal", shortName: "ARS", colors: ["#EF0107", "#FFFFFF"], ...PL, aliases: ["arsenal", "gunners"] },
+  { id: "aston-villa", name: "Aston Villa", shortName: "AVL", colors: ["#670E36", "#95BFE5"], ...PL, aliases: ["aston villa", "villa"] },
+  { id: "bournemouth", name: "AFC Bournemouth", shortName: "BOU", colors: ["#DA291C", "#000000"], ...PL, aliases: ["bournemouth", "cherries"] },
+  { id: "brentford", name: "Brentford", shortName: "BRE", colors: ["#E30613", "#FFFFFF"], ...PL, aliases: ["brentford", "bees"] },
+  { id: "brighton", name: "Brighton & Hove Albion", shortName: "BHA", colors: ["#0057B8", "#FFFFFF"], ...PL, aliases: ["brighton", "brighton and hove albion", "brighton hove albion", "seagulls"] },
+  { id: "burnley", name: "Burnley", shortName: "BUR", colors: ["#6C1D45", "#99D6EA"], ...PL, aliases: ["burnley", "clarets"] },
+  { id: "chelsea", name: "Chelsea", shortName: "CHE", colors: ["#034694", "#FFFFFF"], ...PL, aliases: ["chelsea", "blues"] },
+  { id: "crystal-palace", name: "Crystal Palace", shortName: "CRY", colors: ["#1B458F", "#C4122E"], ...PL, aliases: ["crystal palace", "palace", "eagles"] },
+  { id: "everton", name: "Everton", shortName: "EVE", colors: ["#003399", "#FFFFFF"], ...PL, aliases: ["everton", "toffees"] },
+  { id: "leeds", name: "Leeds United", shortName: "LEE", colors: ["#FFFFFF", "#1D428A"], ...PL, aliases: ["leeds", "leeds united"] },
+  { id: "leicester", name: "Leicester City", shortName: "LEI", colors: ["#003090", "#FDBE11"], country: "England", league: "Championship", aliases: ["leicester", "leicester city", "foxes"] },
+  { id: "liverpool", name: "Liverpool", shortName: "LIV", colors: ["#C8102E", "#00B2A9"], ...PL, aliases: ["liverpool", "reds"] },
+  { id: "manchester-city", name: "Manchester City", shortName: "MCI", colors: ["#6CABDD", "#1C2C5B"], ...PL, aliases: ["manchester city", "man city", "mcfc"] },
+  { id: "manchester-united", name: "Manchester United", shortName: "MUN", colors: ["#DA291C", "#FBE122"], ...PL, aliases: ["manchester united", "manchester utd", "man united", "man utd", "man u", "mufc"] },
+  { id: "newcastle", name: "Newcastle United", shortName: "NEW", colors: ["#241F20", "#FFFFFF"], ...PL, aliases: ["newcastle", "newcastle united", "magpies"] },
+  { id: "sunderland", name: "Sunderland", shortName: "SUN", colors: ["#EB172B", "#FFFFFF"], ...PL, aliases: ["sunderland", "black cats"] },
+  { id: "tottenham", name: "Tottenham Hotspur", shortName: "TOT", colors: ["#132257", "#FFFFFF"], ...PL, aliases: ["tottenham", "tottenham hotspur", "spurs"] },
+  { id: "westham-united", name: "West Ham United", shortName: "WHU", colors: ["#7A263A", "#1BB1E7"], ...PL, aliases: ["west ham", "west ham united", "hammers"] },
+  { id: "wolves", name: "Wolverhampton Wanderers", shortName: "WOL", colors: ["#FDB913", "#231F20"], ...PL, aliases: ["wolves", "wolverhampton", "wolverhampton wanderers"] },
+
+  { id: "athletic-bilbao", name: "Athletic Club", shortName: "ATH", colors: ["#EE2523", "#FFFFFF"], ...LALIGA, aliases: ["athletic bilbao", "athletic club", "bilbao"] },
+  { id: "barcelona", name: "FC Barcelona", shortName: "BAR", colors: ["#A50044", "#004D98"], ...LALIGA, aliases: ["barcelona", "barca"] },
+  { id: "betis", name: "Real Betis", shortName: "BET", colors: ["#0BB363", "#FFFFFF"], ...LALIGA, aliases: ["real betis", "real betis balompie", "betis"] },
+  { id: "celta-vigo", name: "Celta Vigo", shortName: "CEL", colors: ["#8AC3EE", "#E5254E"], ...LALIGA, aliases: ["celta vigo", "celta de vigo", "celta", "rc celta"] },
+  { id: "espanyol", name: "Espanyol", shortName: "ESP", colors: ["#007FC8", "#FFFFFF"], ...LALIGA, aliases: ["espanyol", "espanyol barcelona", "rcd espanyol"] },
+  { id: "real-madrid", name: "Real Madrid", shortName: "RMA", colors: ["#FFFFFF", "#FEBE10"], ...LALIGA, aliases: ["real madrid", "madrid", "los blancos"] },
+  { id: "sevilla", name: "Sevilla", shortName: "SEV", colors: ["#D81920", "#FFFFFF"], ...LALIGA, aliases: ["sevilla", "seville"] },
+  { id: "valencia", name: "Valencia", shortName: "VAL", colors: ["#FFFFFF", "#EE3524"], ...LALIGA, aliases: ["valencia"] },
+
+  { id: "ac-milan", name: "AC Milan", shortName: "MIL", colors: ["#FB090B", "#000000"], ...SERIE_A, aliases: ["ac milan", "milan", "rossoneri"] },
+  { id: "atalanta", name: "Atalanta", shortName: "ATA", colors: ["#1E71B8", "#000000"], ...SERIE_A, aliases: ["atalanta"] },
+  { id: "inter-milan", name: "Inter Milan", shortName: "INT", colors: ["#0068A8", "#000000"], ...SERIE_A, aliases: ["inter milan", "inter", "internazionale", "fc internazionale", "nerazzurri"] },
+  { id: "juventus", name: "Juventus", shortName: "JUV", colors: ["#000000", "#FFFFFF"], ...SERIE_A, aliases: ["juventus", "juve"] },
+  { id: "roma", name: "AS Roma", shortName: "ROM", colors: ["#8E1F2F", "#F0BC42"], ...SERIE_A, aliases: ["roma", "as roma"] },
+
+  { id: "bayer-leverkusen", name: "Bayer Leverkusen", shortName: "B04", colors: ["#E32221", "#000000"], ...BUNDESLIGA, aliases: ["bayer leverkusen", "leverkusen", "bayer 04 leverkusen"] },
+  { id: "bayern", name: "Bayern Munich", shortName: "FCB", colors: ["#DC052D", "#0066B2"], ...BUNDESLIGA, aliases: ["bayern", "bayern munich", "bayern munchen", "fc bayern"] },
+  { id: "dortmund", name: "Borussia Dortmund", shortName: "BVB", colors: ["#FDE100", "#000000"], ...BUNDESLIGA, aliases: ["borussia dortmund", "dortmund", "bvb"] },
+  { id: "leipzig", name: "RB Leipzig", shortName: "RBL", colors: ["#DD0741", "#FFFFFF"], ...BUNDESLIGA, aliases: ["rb leipzig", "leipzig"] },
+
+  { id: "psg", name: "Paris Saint-Germain", shortName: "PSG", colors: ["#004170", "#DA291C"], country: "France", league: "Ligue 1", aliases: ["psg", "paris saint germain", "paris sg", "paris"] },
+  { id: "benfica", name: "Benfica", shortName: "SLB", colors: ["#E83030", "#FFFFFF"], country: "Portugal", league: "Primeira Liga", aliases: ["benfica", "sl benfica"] },
+  { id: "porto", name: "FC Porto", shortName: "POR", colors: ["#003893", "#FFFFFF"], country: "Portugal", league: "Primeira Liga", aliases: ["porto", "fc porto"], hasLogo: false },
+  { id: "galatasaray", name: "Galatasaray", shortName: "GAL", colors: ["#A90432", "#FDB912"], country: "Turkey", league: "Süper Lig", aliases: ["galatasaray", "cimbom"] },
+  { id: "inter-miami", name: "Inter Miami", shortName: "MIA", colors: ["#F7B5CD", "#231F20"], country: "USA", league: "MLS", aliases: ["inter miami"] },
+];
+
+export const TEAMS: Team[] = SEEDS.map(({ colors, hasLogo = true, ...team }) => ({
+  ...team,
+  colors: { primary: colors[0], secondary: colors[1] },
+  ...(hasLogo ? { logo: `/logos/${team.id}.png` } : {}),
+}));
+
+// Club-type prefixes/suffixes and squad qualifiers that never distinguish two clubs.
+const NOISE_WORDS = new Set([
+  "fc", "cf", "afc", "sc", "ac", "as", "ssc", "rc", "rcd", "sl", "cd", "ud", "club", "football", "futbol",
+  "de", "the", "and", "women", "ladies", "wfc", "u21", "u23", "reserves",
+]);
+
+/** Lower-case, accent-free, punctuation-free form: "Atlético Madrid FC" → "atletico madrid fc". */
+export const normalizeTeam = (name?: string) =>
+  (name ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+const stripNoise = (normalized: string) =>
+  normalized.split(" ").filter((word) => !NOISE_WORDS.has(word)).join(" ");
+
+const ALIAS_INDEX = new Map<string, Team>();
+for (const team of TEAMS) {
+  for (const alias of [team.id.replace(/-/g, " "), team.name, ...team.aliases]) {
+    const key = normalizeTeam(alias);
+    if (!ALIAS_INDEX.has(key)) ALIAS_INDEX.set(key, team);
+    const stripped = stripNoise(key);
+    if (stripped && !ALIAS_INDEX.has(stripped)) ALIAS_INDEX.set(stripped, team);
+  }
+}
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** Typos allowed for a name of this length; short names must match exactly. */
+const tolerance = (length: number) => (length < 5 ? 0 : length < 10 ? 1 : 2);
+
+/**
+ * Resolves a free-form club name to a registry entry: exact alias first, then the
+ * same without suffixes like "FC", then the closest alias within a small edit
+ * distance. Returns null rather than guessing when nothing is close enough.
+ */
+export const findTeam = (name?: string): Team | null => {
+  const normalized = normalizeTeam(name);
+  if (!normalized) return null;
+  const stripped = stripNoise(normalized) || normalized;
+  const exact = ALIAS_INDEX.get(normalized) ?? ALIAS_INDEX.get(stripped);
+  if (exact) return exact;
+
+  let best: Team | null = null;
+  let bestDistance = Infinity;
+  let tied = false;
+  for (const [alias, team] of ALIAS_INDEX) {
+    const distance = editDistance(stripped, alias);
+    if (distance > tolerance(alias.length)) continue;
+    if (distance < bestDistance) {
+      best = team;
+      bestDistance = distance;
+      tied = false;
+    } else if (distance === bestDistance && team !== best) {
+      tied = true;
+    }
+  }
+  return tied ? null : best;
+};
+
+/** A registry entry matching a partly typed name, and the alias it matched on. */
+export type TeamMatch = { team: Team; alias: string; distance: number };
+
+/**
+ * Teams whose name or alias starts with `prefix` (word by word, so "city" finds
+ * "Manchester City"), tolerating a typo or two in longer prefixes. Best matches
+ * first; every team that fits is returned, so clubs sharing a name ("Inter") all show.
+ */
+export const searchTeams = (prefix: string, limit = 6): TeamMatch[] => {
+  const needle = normalizeTeam(prefix);
+  if (!needle) return [];
+  const best = new Map<string, TeamMatch & { rank: number }>();
+  for (const [alias, team] of ALIAS_INDEX) {
+    const words = alias.split(" ");
+    const starts = alias.startsWith(needle) ? 0 : words.some((_, i) => words.slice(i).join(" ").startsWith(needle)) ? 1 : -1;
+    // A typo can add or drop a letter, so compare against prefixes one shorter and one longer too.
+    const distance =
+      starts >= 0
+        ? 0
+        : Math.min(...[-1, 0, 1].map((delta) => editDistance(needle, alias.slice(0, needle.length + delta))));
+    if (starts < 0 && distance > tolerance(needle.length)) continue;
+    const rank = starts >= 0 ? starts : 1 + distance;
+    const current = best.get(team.id);
+    if (!current || rank < current.rank || (rank === current.rank && alias.length < current.alias.length)) {
+      best.set(team.id, { team, alias, distance, rank });
+    }
+  }
+  return [...best.values()]
+    .sort((a, b) => a.rank - b.rank || a.alias.length - b.alias.length || a.team.name.localeCompare(b.team.name))
+    .slice(0, limit)
+    .map(({ team, alias, distance }) => ({ team, alias, distance }));
+};
+
+export const getTeam = (id: string) => TEAMS.find((team) => team.id === id) ?? null;
+
+export const logoForTeam = (name?: string) => findTeam(name)?.logo ?? null;
+
+/** "Aston Villa" → "AV", "Chelsea" → "CH". */
+export const teamInitials = (name?: string) => {
+  const words = normalizeTeam(name).split(" ").filter((word) => word && !NOISE_WORDS.has(word));
+  if (!words.length) return "?";
+  const letters = words.length > 1 ? words[0][0] + words[1][0] : words[0].slice(0, 2);
+  return letters.toUpperCase();
+};
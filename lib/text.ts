@@ -0,0 +1,11 @@
+// A trailing "📚 Sources: https://..." / "References: ..." block and everything after it.
+const SOURCE_BLOCK = /📚?\s*(?:Sources?|References?)(?:\s*:)?\s*[•\-\s]*(?:https?:\/\/[\s\S]*)/gi;
+
+export const cleanText = (text: string) => {
+  // Remove "📚 Sources: ..." or "Sources: ..." lines with URLs (and everything after)
+  return text.replace(SOURCE_BLOCK, "").trim();
+};
+
+/** URLs listed in the trailing sources block that `cleanText` strips, in order. */
+export const sourceBlockUrls = (text: string) =>
+  [...text.matchAll(SOURCE_BLOCK)].flatMap((block) => block[0].match(/https?:\/\/[^\s<>()\]]+[^\s<>()\].,;]/g) ?? []);
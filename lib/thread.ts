@@ -0,0 +1,21 @@
+import type { ConversationTurn, ThreadContextTurn } from "./types";
+
+// Keeps request bodies small; older turns rarely matter for follow-ups.
+export const MAX_CONTEXT_TURNS = 6;
+
+export const createId = () => {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+export const buildThreadContext = (turns: ConversationTurn[]): ThreadContextTurn[] =>
+  turns
+    .filter((turn) => turn.status === "complete" && turn.response && turn.response.success !== false)
+    .slice(-MAX_CONTEXT_TURNS)
+    .map((turn) => ({
+      query: turn.query,
+      summary: turn.response?.summary ?? null,
+      match_metadata: turn.response?.match_metadata ?? null,
+    }));
@@ -0,0 +1,94 @@
+import { checkConsistency } from "./consistency";
+import type { ConversationTurn, ThinkingEvent } from "./types";
+
+/** One pipeline stage in the waterfall: every event it sent and how long it ran. */
+export type TraceStage = {
+  stage: string;
+  /** Status of the stage's latest event. */
+  status: string;
+  /** Offsets from the start of the request in ms; null for traces saved without timestamps. */
+  start: number | null;
+  end: number | null;
+  events: ThinkingEvent[];
+};
+
+export type ThinkingTrace = {
+  stages: TraceStage[];
+  /** Whole request in ms, or null when the events carry no timestamps. */
+  duration: number | null;
+};
+
+const isDone = (status: string) => status.trim().toLowerCase() === "complete";
+
+/**
+ * Groups a turn's thinking events by `stage`, in the order stages first appeared.
+ * A stage runs from its first event until the event that marks it complete;
+ * otherwise until another stage reports after its last event, or until the
+ * request ended (`finishedAt`, or now while it is still streaming).
+ */
+export const buildTrace = (events: ThinkingEvent[], startedAt?: number, finishedAt?: number): ThinkingTrace => {
+  const timed = events.length > 0 && events.every((event) => typeof event.at === "number");
+  const origin = timed ? startedAt ?? (events[0].at as number) : 0;
+  const finish = finishedAt ?? Date.now();
+
+  const groups = new Map<string, ThinkingEvent[]>();
+  for (const event of events) {
+    const key = event.stage || "thinking";
+    groups.set(key, [...(groups.get(key) ?? []), event]);
+  }
+
+  const stages = [...groups].map(([stage, stageEvents]): TraceStage => {
+    const last = stageEvents[stageEvents.length - 1];
+    if (!timed) return { stage, status: last.status, start: null, end: null, events: stageEvents };
+
+    const first = stageEvents[0].at as number;
+    const lastAt = last.at as number;
+    const completed = stageEvents.find((event) => isDone(event.status));
+    const handover = events.find((event) => (event.stage || "thinking") !== stage && (event.at as number) > lastAt);
+    const end = (completed?.at ?? handover?.at ?? Math.max(finish, lastAt)) as number;
+    return { stage, status: last.status, start: first - origin, end: end - origin, events: stageEvents };
+  });
+
+  return {
+    stages,
+    duration: timed ? Math.max(finish - origin, ...stages.map((stage) => stage.end ?? 0)) : null,
+  };
+};
+
+/** A turn's trace; failed and aborted turns end at their last event rather than running on. */
+export const turnTrace = (turn: ConversationTurn) =>
+  buildTrace(
+    turn.thinking,
+    turn.startedAt,
+    turn.status === "streaming" ? undefined : turn.receivedAt ?? turn.thinking[turn.thinking.length - 1]?.at,
+  );
+
+/** The trace as a JSON document for bug reports: absolute times plus per-stage offsets. */
+export const traceToJson = (turn: ConversationTurn) => {
+  const trace = turnTrace(turn);
+  const iso = (ms?: number) => (typeof ms === "number" ? new Date(ms).toISOString() : null);
+  return JSON.stringify(
+    {
+      query: turn.query,
+      status: turn.status,
+      error: turn.error,
+      issues: checkConsistency(turn.response?.match_metadata),
+      startedAt: iso(turn.startedAt),
+      finishedAt: iso(turn.receivedAt),
+      durationMs: trace.duration,
+      stages: trace.stages.map((stage) => ({
+        stage: stage.stage,
+        status: stage.status,
+        startMs: stage.start,
+        endMs: stage.end,
+        events: stage.events.map((event) => ({
+          at: iso(event.at),
+          status: event.status,
+          message: event.message,
+        })),
+      })),
+    },
+    null,
+    2,
+  );
+};
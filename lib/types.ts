@@ -0,0 +1,189 @@
+import type { AnalysisError } from "./errors";
+
+export type ApiHighlight = {
+  title?: string;
+  url?: string;
+  duration?: string;
+  source_type?: string | null;
+  is_nbc_sports?: boolean | null;
+  is_official_club?: boolean | null;
+  confidence?: number | null;
+};
+
+/** A cited source; older backends send bare URL strings instead. */
+export type ApiSource = {
+  url?: string;
+  title?: string;
+  publisher?: string;
+  /** ISO timestamp of when the backend fetched the page. */
+  accessed_at?: string;
+};
+
+export type ApiKeyMoment = {
+  minute?: string;
+  event?: string;
+  description?: string;
+  team?: string;
+  /** Scorer or booked player, when the backend sends it separately from the description. */
+  player?: string;
+  /** Assisting player for goals. */
+  assist?: string;
+  momentum_impact?: string;
+  reasoning?: string;
+};
+
+export type ApiMatchMetadata = {
+  home_team?: string;
+  away_team?: string;
+  match_date?: string;
+  score?: string;
+  competition?: string;
+  /** Match state for live games, e.g. "1H", "HT", "second half", "FT". */
+  status?: string;
+  /** Current minute while the match is in play, e.g. "67" or "45+2". */
+  minute?: string;
+  key_moments?: ApiKeyMoment[];
+  man_of_the_match?: string;
+  match_summary?: string;
+};
+
+export type ApiTeamTactics = {
+  formation?: string;
+  pressing?: string;
+  possession?: string | number;
+  build_up?: string;
+  defensive_shape?: string;
+  strengths?: string[];
+  weaknesses?: string[];
+};
+
+export type ApiPossessionPhase = {
+  phase?: string;
+  minutes?: string;
+  team?: string;
+  possession?: string | number;
+  description?: string;
+};
+
+export type ApiKeyBattle = {
+  home_player?: string;
+  away_player?: string;
+  area?: string;
+  winner?: string;
+  description?: string;
+};
+
+/**
+ * Known fields of `game_analysis.tactical_analysis`. The backend adds keys freely, so
+ * anything else is kept and rendered generically.
+ */
+export type ApiTacticalAnalysis = {
+  formations?: { home?: string; away?: string };
+  home?: ApiTeamTactics;
+  away?: ApiTeamTactics;
+  pressing?: string | { home?: string; away?: string };
+  possession_phases?: ApiPossessionPhase[];
+  key_battles?: ApiKeyBattle[];
+  [key: string]: unknown;
+};
+
+/** One row of a league table. */
+export type ApiStandingRow = {
+  position?: number;
+  team?: string;
+  played?: number;
+  won?: number;
+  drawn?: number;
+  lost?: number;
+  goals_for?: number;
+  goals_against?: number;
+  goal_difference?: number;
+  points?: number;
+  /** Recent results, oldest first: "WWDLW" or ["W", "W", "D", "L", "W"]. */
+  form?: string | string[];
+  /** Qualification or relegation zone, e.g. "champions_league", "relegation". */
+  zone?: string;
+};
+
+export type ApiStandings = {
+  competition?: string;
+  season?: string;
+  table?: ApiStandingRow[];
+};
+
+/** A scheduled or played game; `score` is set once it has been played. */
+export type ApiFixture = {
+  home_team?: string;
+  away_team?: string;
+  /** ISO date or date-time of kick-off. */
+  date?: string;
+  score?: string;
+  status?: string;
+  competition?: string;
+  round?: string;
+  venue?: string;
+};
+
+export type ApiResponse = {
+  success?: boolean;
+  intent?: string | null;
+  summary?: string | null;
+  match_metadata?: ApiMatchMetadata | null;
+  highlights?: (ApiHighlight | string)[];
+  sources?: (ApiSource | string)[];
+  standings?: ApiStandings | null;
+  fixtures?: ApiFixture[];
+  game_analysis?: {
+    deep_analysis?: string;
+    momentum_analysis?: ApiKeyMoment[];
+    tactical_analysis?: ApiTacticalAnalysis;
+  } | null;
+  error?: string | null;
+  answer?: string | null;
+};
+
+/** Field of the answer that `delta` frames stream as markdown. */
+export type DeltaField = "summary" | "deep_analysis";
+
+/**
+ * One incremental `delta` frame: `text` is appended to `field`, and any
+ * `match_metadata` fields are merged in ahead of the final result.
+ */
+export type AnalysisDelta = {
+  field?: DeltaField;
+  text?: string;
+  match_metadata?: ApiMatchMetadata;
+};
+
+export type ThinkingEvent = {
+  stage: string;
+  message: string;
+  status: string;
+  /** When the event reached the browser (ms since epoch). */
+  at?: number;
+};
+
+export type TurnStatus = "streaming" | "complete" | "error" | "aborted";
+
+/** One question/answer exchange within a conversation thread. */
+export type ConversationTurn = {
+  id: string;
+  query: string;
+  response: ApiResponse | null;
+  thinking: ThinkingEvent[];
+  error: AnalysisError | null;
+  status: TurnStatus;
+  /** How many automatic or recovery retries led to this turn; drives the backoff. */
+  attempt?: number;
+  /** When the query was sent (ms since epoch). */
+  startedAt?: number;
+  /** When the final answer arrived (ms since epoch). */
+  receivedAt?: number;
+};
+
+/** Compact view of an earlier turn sent to the backend so follow-ups can resolve context. */
+export type ThreadContextTurn = {
+  query: string;
+  summary: string | null;
+  match_metadata: ApiMatchMetadata | null;
+};
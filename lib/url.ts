@@ -0,0 +1,16 @@
+/** Parses `url` if it is an absolute http(s) URL; anything else (javascript:, data:, relative) is rejected. */
+export const safeHttpUrl = (url?: string | null) => {
+  if (!url) return null;
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === "https:" || parsed.protocol === "http:" ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+/** "www.bbc.co.uk" → "bbc.co.uk". */
+export const displayHost = (url: URL) => url.hostname.replace(/^www\./, "");
+
+/** Same-origin favicon for a domain, fetched and cached by `/api/favicon`. */
+export const faviconUrl = (domain: string) => `/api/favicon?domain=${encodeURIComponent(domain)}`;
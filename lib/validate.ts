@@ -0,0 +1,154 @@
+/**
+ * Minimal runtime schema combinators. Each schema checks an unknown value and
+ * either returns the typed value or a list of issues with JSON-ish paths. A value
+ * that passes may still carry issues for parts that `lenient` and `looseArray` left out.
+ */
+export type ValidationResult<T> =
+  | { ok: true; value: T; issues?: string[] }
+  | { ok: false; issues: string[] };
+
+export type Schema<T> = (value: unknown, path?: string) => ValidationResult<T>;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const ok = <T>(value: T, issues: string[] = []): ValidationResult<T> =>
+  issues.length ? { ok: true, value, issues } : { ok: true, value };
+const fail = <T>(path: string, message: string): ValidationResult<T> => ({
+  ok: false,
+  issues: [`${path || "$"}: ${message}`],
+});
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+export const string: Schema<string> = (value, path = "") =>
+  typeof value === "string" ? ok(value) : fail(path, `expected string, got ${describe(value)}`);
+
+/** Accepts strings and finite numbers, normalising both to a string. */
+export const stringish: Schema<string> = (value, path = "") => {
+  if (typeof value === "number" && Number.isFinite(value)) return ok(String(value));
+  return string(value, path);
+};
+
+export const number: Schema<number> = (value, path = "") =>
+  typeof value === "number" && Number.isFinite(value)
+    ? ok(value)
+    : fail(path, `expected number, got ${describe(value)}`);
+
+/** Accepts finite numbers and numeric strings ("12", "+3", "-4"), normalising both to a number. */
+export const numberish: Schema<number> = (value, path = "") => {
+  if (typeof value === "string" && /^\s*[+-]?\d+(\.\d+)?\s*$/.test(value)) return ok(Number(value));
+  return number(value, path);
+};
+
+export const boolean: Schema<boolean> = (value, path = "") =>
+  typeof value === "boolean" ? ok(value) : fail(path, `expected boolean, got ${describe(value)}`);
+
+export const unknownValue: Schema<unknown> = (value) => ok(value);
+
+export const record: Schema<Record<string, unknown>> = (value, path = "") =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+    ? ok(value as Record<string, unknown>)
+    : fail(path, `expected object, got ${describe(value)}`);
+
+export const literal =
+  <T extends string>(...options: T[]): Schema<T> =>
+  (value, path = "") =>
+    options.includes(value as T)
+      ? ok(value as T)
+      : fail(path, `expected one of ${options.join(", ")}, got ${JSON.stringify(value)}`);
+
+/** Missing and `null` values are both treated as absent and dropped from objects. */
+export const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path = "") =>
+    value === null || value === undefined ? ok(undefined) : schema(value, path);
+
+/** `null` and `undefined` pass through untouched. */
+export const nullable =
+  <T>(schema: Schema<T>): Schema<T | null | undefined> =>
+  (value, path = "") =>
+    value === null || value === undefined ? ok(value) : schema(value, path);
+
+/** An invalid value is dropped and reported instead of failing the object around it. */
+export const lenient =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path = "") => {
+    const result = schema(value, path);
+    return result.ok ? result : ok(undefined, result.issues.map((issue) => `${issue} (left out)`));
+  };
+
+/** Like `array`, but invalid items are dropped and reported instead of failing the whole list. */
+export const looseArray =
+  <T>(item: Schema<T>): Schema<T[]> =>
+  (value, path = "") => {
+    if (!Array.isArray(value)) return fail(path, `expected array, got ${describe(value)}`);
+    const items: T[] = [];
+    const issues: string[] = [];
+    value.forEach((entry, idx) => {
+      const result = item(entry, `${path}[${idx}]`);
+      if (result.ok) items.push(result.value);
+      issues.push(...(result.ok ? result.issues ?? [] : result.issues.map((issue) => `${issue} (item left out)`)));
+    });
+    return ok(items, issues);
+  };
+
+export const array =
+  <T>(item: Schema<T>): Schema<T[]> =>
+  (value, path = "") => {
+    if (!Array.isArray(value)) return fail(path, `expected array, got ${describe(value)}`);
+    const items: T[] = [];
+    const issues: string[] = [];
+    const dropped: string[] = [];
+    value.forEach((entry, idx) => {
+      const result = item(entry, `${path}[${idx}]`);
+      if (result.ok) {
+        items.push(result.value);
+        dropped.push(...(result.issues ?? []));
+      } else {
+        issues.push(...result.issues);
+      }
+    });
+    return issues.length ? { ok: false, issues } : ok(items, dropped);
+  };
+
+export const union =
+  <T extends unknown[]>(...schemas: { [K in keyof T]: Schema<T[K]> }): Schema<T[number]> =>
+  (value, path = "") => {
+    const issues: string[] = [];
+    for (const schema of schemas) {
+      const result = schema(value, path);
+      if (result.ok) return result;
+      issues.push(...result.issues);
+    }
+    return { ok: false, issues };
+  };
+
+type Shape = Record<string, Schema<unknown>>;
+
+/**
+ * Validates the listed keys; unknown keys are kept as-is because the backend adds
+ * fields faster than the UI learns about them.
+ */
+export const object =
+  <S extends Shape>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> } & Record<string, unknown>> =>
+  (value, path = "") => {
+    const base = record(value, path);
+    if (!base.ok) return base;
+    const out: Record<string, unknown> = { ...base.value };
+    const issues: string[] = [];
+    const dropped: string[] = [];
+    for (const [key, schema] of Object.entries(shape)) {
+      const result = schema(base.value[key], path ? `${path}.${key}` : key);
+      if (result.ok) {
+        if (result.value === undefined) delete out[key];
+        else out[key] = result.value;
+        dropped.push(...(result.issues ?? []));
+      } else {
+        issues.push(...result.issues);
+      }
+    }
+    return issues.length
+      ? { ok: false, issues }
+      : ok(out as { [K in keyof S]: Infer<S[K]> } & Record<string, unknown>, dropped);
+  };
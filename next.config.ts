@@ -1,7 +1,19 @@
 import type { NextConfig } from "next";
+import { PHASE_PRODUCTION_BUILD } from "next/constants";
+import { teamRegistryProblems } from "./lib/server/teamAssets";
 
-const nextConfig: NextConfig = {
-  /* config options here */
+const nextConfig = (phase: string): NextConfig => {
+  const problems = teamRegistryProblems();
+  if (problems.length) {
+    const message = `Team registry (lib/teams.ts) is inconsistent:\n  - ${problems.join("\n  - ")}`;
+    // Fail production builds; only warn in development so the dev server still starts.
+    if (phase === PHASE_PRODUCTION_BUILD) throw new Error(message);
+    console.warn(message);
+  }
+
+  return {
+    /* config options here */
+  };
 };
 
 export default nextConfig;